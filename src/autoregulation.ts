@@ -0,0 +1,89 @@
+import { Exercise, ExerciseParam, WeightUnit } from './types';
+import { WorkoutHistory } from './history';
+import { roundWeight } from './units';
+import { parsePercentageLoad, scalePercentageLoad } from './percentage';
+import { isWarmupSet } from './warmup';
+
+// What happens to an exercise's plan after a session
+export type ProgressionOutcome = 'progress' | 'hold' | 'deload';
+
+// Params where falling short of the plan is a miss. Others may be better lower (time, pace), so they never count.
+const MISSABLE_KEYS = ['weight', 'reps'];
+
+/**
+ * A set is missed when its planned weight or reps weren't reached (e.g. "Reps: 7/8")
+ */
+export function isSetMissed(set: Exercise): boolean {
+	return set.params.some(param => {
+		if (!MISSABLE_KEYS.includes(param.key.toLowerCase())) return false;
+		// Percentage weights can't be compared without resolving them
+		if (param.targetValue === undefined || parsePercentageLoad(param.targetValue)) return false;
+		const achieved = parseFloat(param.value);
+		const target = parseFloat(param.targetValue);
+		return !isNaN(achieved) && !isNaN(target) && achieved < target;
+	});
+}
+
+/**
+ * A session is missed when any completed working set of the exercise missed its target
+ */
+export function isSessionMissed(sets: Exercise[]): boolean {
+	return sets.some(set => set.state === 'completed' && !isWarmupSet(set) && isSetMissed(set));
+}
+
+/**
+ * Params with the achieved values replaced by the planned ones
+ */
+export function getPlannedParams(params: ExerciseParam[]): ExerciseParam[] {
+	return params.map(param => param.targetValue === undefined
+		? param
+		: { ...param, value: param.targetValue, targetValue: undefined });
+}
+
+/**
+ * Missed sessions in a row before the current one, newest first, from the logged history.
+ * The session being finished is excluded by its start date in case it was already indexed.
+ */
+export function countPreviousMisses(history: WorkoutHistory | null, exerciseName: string, currentStartDate?: string): number {
+	if (!history) return 0;
+
+	const sessions = history.getExerciseHistory(exerciseName)
+		.filter(entry => !currentStartDate || entry.session.startDate !== currentStartDate);
+
+	let misses = 0;
+	for (let i = sessions.length - 1; i >= 0; i--) {
+		if (!isSessionMissed(sessions[i]?.sets ?? [])) break;
+		misses++;
+	}
+	return misses;
+}
+
+/**
+ * Progress when every working set hit its target, otherwise hold.
+ * Every deloadAfter-th consecutive miss deloads instead (0 disables deloads).
+ */
+export function getProgressionOutcome(sets: Exercise[], previousMisses: number, deloadAfter: number): ProgressionOutcome {
+	if (!isSessionMissed(sets)) return 'progress';
+
+	const misses = previousMisses + 1;
+	return deloadAfter > 0 && misses % deloadAfter === 0 ? 'deload' : 'hold';
+}
+
+/**
+ * Reduce weight params by a percentage, rounded to 0.5 kg / 1 lb.
+ * Percentage weights are reduced in their percentage instead (e.g. 80%TM to 72%TM).
+ */
+export function deloadParams(params: ExerciseParam[], percent: number, unit: WeightUnit): ExerciseParam[] {
+	return params.map(param => {
+		if (param.key.toLowerCase() !== 'weight') return param;
+
+		const scaled = scalePercentageLoad(param.value, 1 - percent / 100);
+		if (scaled) return { ...param, value: scaled };
+
+		const weight = parseFloat(param.value);
+		if (isNaN(weight)) return param;
+
+		const reduced = roundWeight(weight * (1 - percent / 100), param.weightUnit ?? unit);
+		return { ...param, value: String(reduced) };
+	});
+}
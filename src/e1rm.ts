@@ -0,0 +1,33 @@
+import { E1rmFormula, ExerciseParam, WeightUnit } from './types';
+import { getWeightIn } from './units';
+
+/**
+ * Estimated one-rep max from a set of reps at a weight.
+ * Epley: w × (1 + r/30), Brzycki: w × 36 / (37 - r). Brzycki has no estimate from 37 reps on.
+ */
+export function estimateOneRepMax(weight: number, reps: number, formula: E1rmFormula = 'epley'): number {
+	if (reps <= 0) return 0;
+	if (reps === 1) return weight;
+	if (formula === 'brzycki') {
+		return reps < 37 ? weight * 36 / (37 - reps) : 0;
+	}
+	return weight * (1 + reps / 30);
+}
+
+/**
+ * e1RM of a set from its Weight and Reps params, rounded to 0.1.
+ * With a unit, kg/lb weights are converted to it (unitless weights are assumed to be in it).
+ * @returns null if the set has no numeric weight and reps
+ */
+export function estimateSetOneRepMax(params: ExerciseParam[], formula: E1rmFormula, unit?: WeightUnit): number | null {
+	const weightParam = params.find(p => p.key.toLowerCase() === 'weight');
+	const repsParam = params.find(p => p.key.toLowerCase() === 'reps');
+	if (!weightParam || !repsParam) return null;
+
+	const weight = unit ? getWeightIn(weightParam, unit) : parseFloat(weightParam.value);
+	const reps = parseFloat(repsParam.value);
+	if (isNaN(weight) || isNaN(reps) || weight <= 0) return null;
+
+	const e1rm = estimateOneRepMax(weight, reps, formula);
+	return e1rm > 0 ? Math.round(e1rm * 10) / 10 : null;
+}
@@ -0,0 +1,73 @@
+import { EffortScale, Exercise, ParsedWorkout } from './types';
+
+// Valid values per scale, in half-point steps
+const EFFORT_RANGES: Record<EffortScale, { min: number; max: number }> = {
+	rpe: { min: 1, max: 10 },
+	rir: { min: 0, max: 10 }
+};
+
+const EFFORT_STEP = 0.5;
+
+/**
+ * Scale for an RPE/RIR param key (case-insensitive)
+ */
+export function getEffortScale(key: string): EffortScale | undefined {
+	const normalized = key.trim().toLowerCase();
+	return normalized === 'rpe' || normalized === 'rir' ? normalized : undefined;
+}
+
+/**
+ * Check an RPE/RIR value. Empty values are allowed (not rated yet).
+ * @returns An error message, or null if the value is valid
+ */
+export function validateEffortValue(scale: EffortScale, value: string): string | null {
+	if (value.trim() === '') return null;
+
+	const { min, max } = EFFORT_RANGES[scale];
+	const label = scale.toUpperCase();
+	const num = Number(value);
+
+	if (isNaN(num)) {
+		return `${label} must be a number, got "${value}"`;
+	}
+	if (num < min || num > max) {
+		return `${label} must be between ${min} and ${max}, got ${value}`;
+	}
+	if (Math.abs(num / EFFORT_STEP - Math.round(num / EFFORT_STEP)) > 1e-9) {
+		return `${label} must be in steps of ${EFFORT_STEP}, got ${value}`;
+	}
+	return null;
+}
+
+/**
+ * Selectable values for a scale, lowest first
+ */
+export function getEffortOptions(scale: EffortScale): string[] {
+	const { min, max } = EFFORT_RANGES[scale];
+	const options: string[] = [];
+	for (let value = min; value <= max; value += EFFORT_STEP) {
+		options.push(String(value));
+	}
+	return options;
+}
+
+/**
+ * RPE/RIR of a set as a number, if rated
+ */
+export function getEffortValue(exercise: Exercise, scale: EffortScale): number | undefined {
+	const param = exercise.params.find(p => p.effort === scale);
+	if (!param || param.error || param.value.trim() === '') return undefined;
+	const value = parseFloat(param.value);
+	return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Copy of the workout without RPE/RIR params that were never rated, so logs don't carry empty values
+ */
+export function removeUnratedEffort(workout: ParsedWorkout): ParsedWorkout {
+	const cleaned = structuredClone(workout);
+	for (const exercise of cleaned.exercises) {
+		exercise.params = exercise.params.filter(p => !p.effort || p.value.trim() !== '');
+	}
+	return cleaned;
+}
@@ -93,6 +93,36 @@ export class FileUpdater {
 		return updateSucceeded;
 	}
 
+	/**
+	 * Find a ```workout block by its content, for updates when the block isn't rendered
+	 * @returns The block's fence lines and the source between them, or null if no block matches
+	 */
+	async findWorkoutBlock(
+		sourcePath: string,
+		matches: (source: string) => boolean
+	): Promise<{ sectionInfo: SectionInfo; source: string } | null> {
+		const file = this.app.vault.getAbstractFileByPath(sourcePath);
+		if (!(file instanceof TFile)) return null;
+
+		const lines = (await this.app.vault.read(file)).split('\n');
+		for (let i = 0; i < lines.length; i++) {
+			if (lines[i]?.trim() !== '```workout') continue;
+
+			let end = i + 1;
+			while (end < lines.length && lines[end]?.trim() !== '```') {
+				end++;
+			}
+			if (end >= lines.length) return null;
+
+			const source = lines.slice(i + 1, end).join('\n');
+			if (matches(source)) {
+				return { sectionInfo: { lineStart: i, lineEnd: end }, source };
+			}
+			i = end;
+		}
+		return null;
+	}
+
 	async insertLineAfter(
 		sourcePath: string,
 		sectionInfo: SectionInfo | null,
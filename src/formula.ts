@@ -0,0 +1,336 @@
+/**
+ * Sandboxed arithmetic evaluator for progression formulas.
+ *
+ * Grammar (lowest to highest precedence):
+ *   comparison := expression (('<' | '<=' | '>' | '>=' | '==' | '!=') expression)?   (1 = true, 0 = false)
+ *   expression := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/') unary)*
+ *   unary      := ('+' | '-') unary | power
+ *   power      := primary ('^' unary)?          (right associative)
+ *   primary    := number | variable | call | '(' expression ')'
+ *   call       := name '(' comparison (',' comparison)* ')'
+ *
+ * Only whitelisted functions are callable and nothing is ever handed to the JS engine,
+ * so formulas from shared notes cannot execute code.
+ */
+
+export class FormulaError extends Error {
+	constructor(message: string, public position: number) {
+		super(message);
+		this.name = 'FormulaError';
+	}
+}
+
+type TokenType = 'number' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'end';
+
+interface Token {
+	type: TokenType;
+	text: string;
+	position: number;  // 0-based offset in the formula
+}
+
+type FormulaNode =
+	| { kind: 'number'; value: number }
+	| { kind: 'variable'; name: string; position: number }
+	| { kind: 'unary'; operator: string; operand: FormulaNode }
+	| { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode; position: number }
+	| { kind: 'call'; name: string; args: FormulaNode[]; position: number };
+
+interface FormulaFunction {
+	minArgs: number;
+	maxArgs: number;  // Infinity for variadic
+	apply: (args: number[]) => number;
+}
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+	min: { minArgs: 1, maxArgs: Infinity, apply: args => Math.min(...args) },
+	max: { minArgs: 1, maxArgs: Infinity, apply: args => Math.max(...args) },
+	round: { minArgs: 1, maxArgs: 1, apply: ([x = 0]) => Math.round(x) },
+	floor: { minArgs: 1, maxArgs: 1, apply: ([x = 0]) => Math.floor(x) },
+	ceil: { minArgs: 1, maxArgs: 1, apply: ([x = 0]) => Math.ceil(x) },
+	// Pick a value by condition, e.g. if(lastRpe >= 9.5, w, w+2.5)
+	if: { minArgs: 3, maxArgs: 3, apply: ([condition = 0, then = 0, otherwise = 0]) => condition !== 0 ? then : otherwise },
+	// Round to the nearest multiple of step, e.g. roundTo(w*1.05, 2.5)
+	roundTo: {
+		minArgs: 2,
+		maxArgs: 2,
+		apply: ([x = 0, step = 0]) => step === 0 ? x : Math.round(x / step) * step
+	}
+};
+
+// Own entries only, so names inherited from Object.prototype (toString, __proto__, ...) aren't callable
+function getFunction(name: string): FormulaFunction | undefined {
+	return Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+}
+
+const OPERATORS = '+-*/^';
+const COMPARISONS = ['<=', '>=', '==', '!=', '<', '>'];
+
+function describe(token: Token): string {
+	return token.type === 'end' ? 'end of formula' : `'${token.text}'`;
+}
+
+function tokenize(formula: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < formula.length) {
+		const char = formula.charAt(i);
+
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+
+		// Number: 12, 2.5, .5
+		if (/[0-9.]/.test(char)) {
+			const match = formula.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+			if (!match || !match[0]) {
+				throw new FormulaError(`Unexpected character '${char}' at position ${i + 1}`, i);
+			}
+			tokens.push({ type: 'number', text: match[0], position: i });
+			i += match[0].length;
+			continue;
+		}
+
+		// Identifier: variable or function name
+		if (/[A-Za-z_]/.test(char)) {
+			const match = formula.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+			const text = match?.[0] ?? char;
+			tokens.push({ type: 'identifier', text, position: i });
+			i += text.length;
+			continue;
+		}
+
+		// Comparison: two-character operators first
+		const comparison = COMPARISONS.find(op => formula.startsWith(op, i));
+		if (comparison) {
+			tokens.push({ type: 'operator', text: comparison, position: i });
+			i += comparison.length;
+			continue;
+		}
+
+		if (OPERATORS.includes(char)) {
+			tokens.push({ type: 'operator', text: char, position: i });
+		} else if (char === '(') {
+			tokens.push({ type: 'lparen', text: char, position: i });
+		} else if (char === ')') {
+			tokens.push({ type: 'rparen', text: char, position: i });
+		} else if (char === ',') {
+			tokens.push({ type: 'comma', text: char, position: i });
+		} else {
+			throw new FormulaError(`Unexpected character '${char}' at position ${i + 1}`, i);
+		}
+		i++;
+	}
+
+	tokens.push({ type: 'end', text: '', position: formula.length });
+	return tokens;
+}
+
+class FormulaParser {
+	private index = 0;
+
+	constructor(private tokens: Token[]) {}
+
+	parse(): FormulaNode {
+		const node = this.parseComparison();
+		const token = this.peek();
+		if (token.type !== 'end') {
+			throw new FormulaError(`Unexpected ${describe(token)} at position ${token.position + 1}`, token.position);
+		}
+		return node;
+	}
+
+	private peek(): Token {
+		// The token list always ends with an 'end' token
+		return this.tokens[this.index] ?? this.tokens[this.tokens.length - 1]!;
+	}
+
+	private next(): Token {
+		const token = this.peek();
+		if (token.type !== 'end') this.index++;
+		return token;
+	}
+
+	private isOperator(...operators: string[]): boolean {
+		const token = this.peek();
+		return token.type === 'operator' && operators.includes(token.text);
+	}
+
+	private parseComparison(): FormulaNode {
+		const left = this.parseExpression();
+		if (this.isOperator(...COMPARISONS)) {
+			const op = this.next();
+			return { kind: 'binary', operator: op.text, left, right: this.parseExpression(), position: op.position };
+		}
+		return left;
+	}
+
+	private parseExpression(): FormulaNode {
+		let left = this.parseTerm();
+		while (this.isOperator('+', '-')) {
+			const op = this.next();
+			left = { kind: 'binary', operator: op.text, left, right: this.parseTerm(), position: op.position };
+		}
+		return left;
+	}
+
+	private parseTerm(): FormulaNode {
+		let left = this.parseUnary();
+		while (this.isOperator('*', '/')) {
+			const op = this.next();
+			left = { kind: 'binary', operator: op.text, left, right: this.parseUnary(), position: op.position };
+		}
+		return left;
+	}
+
+	private parseUnary(): FormulaNode {
+		if (this.isOperator('+', '-')) {
+			const op = this.next();
+			return { kind: 'unary', operator: op.text, operand: this.parseUnary() };
+		}
+		return this.parsePower();
+	}
+
+	private parsePower(): FormulaNode {
+		const base = this.parsePrimary();
+		if (this.isOperator('^')) {
+			const op = this.next();
+			return { kind: 'binary', operator: '^', left: base, right: this.parseUnary(), position: op.position };
+		}
+		return base;
+	}
+
+	private parsePrimary(): FormulaNode {
+		const token = this.next();
+
+		switch (token.type) {
+			case 'number':
+				return { kind: 'number', value: parseFloat(token.text) };
+
+			case 'identifier':
+				if (this.peek().type === 'lparen') {
+					return this.parseCall(token);
+				}
+				return { kind: 'variable', name: token.text, position: token.position };
+
+			case 'lparen': {
+				const inner = this.parseComparison();
+				this.expect('rparen', `Missing ')' to close '(' at position ${token.position + 1}`);
+				return inner;
+			}
+
+			default:
+				throw new FormulaError(`Unexpected ${describe(token)} at position ${token.position + 1}`, token.position);
+		}
+	}
+
+	private parseCall(nameToken: Token): FormulaNode {
+		const fn = getFunction(nameToken.text);
+		if (!fn) {
+			throw new FormulaError(
+				`Unknown function '${nameToken.text}' at position ${nameToken.position + 1} (allowed: ${Object.keys(FUNCTIONS).join(', ')})`,
+				nameToken.position
+			);
+		}
+
+		const open = this.next(); // '('
+		const args: FormulaNode[] = [];
+		if (this.peek().type !== 'rparen') {
+			args.push(this.parseComparison());
+			while (this.peek().type === 'comma') {
+				this.next();
+				args.push(this.parseComparison());
+			}
+		}
+		this.expect('rparen', `Missing ')' to close '${nameToken.text}(' at position ${open.position + 1}`);
+
+		if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+			const expected = fn.minArgs === fn.maxArgs
+				? `${fn.minArgs}`
+				: fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+			throw new FormulaError(
+				`Function '${nameToken.text}' at position ${nameToken.position + 1} expects ${expected} argument(s), got ${args.length}`,
+				nameToken.position
+			);
+		}
+
+		return { kind: 'call', name: nameToken.text, args, position: nameToken.position };
+	}
+
+	private expect(type: TokenType, message: string): void {
+		const token = this.peek();
+		if (token.type !== type) {
+			throw new FormulaError(`${message}, found ${describe(token)} at position ${token.position + 1}`, token.position);
+		}
+		this.next();
+	}
+}
+
+function evaluateNode(node: FormulaNode, variables: Record<string, number>): number {
+	switch (node.kind) {
+		case 'number':
+			return node.value;
+
+		case 'variable': {
+			if (!Object.prototype.hasOwnProperty.call(variables, node.name)) {
+				const known = Object.keys(variables);
+				const hint = known.length > 0 ? ` (available: ${known.join(', ')})` : '';
+				throw new FormulaError(`Unknown variable '${node.name}' at position ${node.position + 1}${hint}`, node.position);
+			}
+			return variables[node.name] ?? 0;
+		}
+
+		case 'unary': {
+			const operand = evaluateNode(node.operand, variables);
+			return node.operator === '-' ? -operand : operand;
+		}
+
+		case 'binary': {
+			const left = evaluateNode(node.left, variables);
+			const right = evaluateNode(node.right, variables);
+			switch (node.operator) {
+				case '+': return left + right;
+				case '-': return left - right;
+				case '*': return left * right;
+				case '/':
+					if (right === 0) {
+						throw new FormulaError(`Division by zero at position ${node.position + 1}`, node.position);
+					}
+					return left / right;
+				case '<': return left < right ? 1 : 0;
+				case '<=': return left <= right ? 1 : 0;
+				case '>': return left > right ? 1 : 0;
+				case '>=': return left >= right ? 1 : 0;
+				case '==': return left === right ? 1 : 0;
+				case '!=': return left !== right ? 1 : 0;
+				default: return Math.pow(left, right);
+			}
+		}
+
+		case 'call': {
+			const args = node.args.map(arg => evaluateNode(arg, variables));
+			const fn = getFunction(node.name);
+			if (!fn) {
+				throw new FormulaError(`Unknown function '${node.name}' at position ${node.position + 1}`, node.position);
+			}
+			return fn.apply(args);
+		}
+	}
+}
+
+/**
+ * Parse and evaluate a formula against the given variables
+ * @throws FormulaError with the offending position on syntax or evaluation errors
+ */
+export function evaluateFormula(formula: string, variables: Record<string, number>): number {
+	const ast = new FormulaParser(tokenize(formula)).parse();
+	const result = evaluateNode(ast, variables);
+
+	if (!isFinite(result)) {
+		throw new FormulaError('Formula result is not a finite number', 0);
+	}
+
+	return result;
+}
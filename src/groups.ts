@@ -0,0 +1,128 @@
+import { Exercise } from './types';
+
+// Consecutive exercises sharing a Group label, walked as a superset (2 exercises) or circuit (3+)
+export interface ExerciseGroup {
+	label: string;
+	startIndex: number;      // First exercise index in the group
+	endIndex: number;        // Last exercise index in the group (inclusive)
+	names: string[];         // Distinct exercise names in order of first appearance
+	rounds: number[][];      // Exercise indices per round, in walk order
+}
+
+/**
+ * Find all groups in a workout.
+ * Round N consists of the Nth set of each exercise in the group, so the lines can be written
+ * either interleaved (A1, A2, A1, A2) or per exercise (A1, A1, A2, A2) - both walk the same way.
+ */
+export function getExerciseGroups(exercises: Exercise[]): ExerciseGroup[] {
+	const groups: ExerciseGroup[] = [];
+
+	let i = 0;
+	while (i < exercises.length) {
+		const label = exercises[i]?.group;
+		if (!label) {
+			i++;
+			continue;
+		}
+
+		const startIndex = i;
+		while (i + 1 < exercises.length && exercises[i + 1]?.group === label) {
+			i++;
+		}
+		const endIndex = i;
+		i++;
+
+		// Collect set indices per exercise name
+		const setsByName = new Map<string, number[]>();
+		for (let j = startIndex; j <= endIndex; j++) {
+			const name = exercises[j]?.name ?? '';
+			const sets = setsByName.get(name) ?? [];
+			sets.push(j);
+			setsByName.set(name, sets);
+		}
+
+		const names = Array.from(setsByName.keys());
+		const roundCount = Math.max(...Array.from(setsByName.values()).map(sets => sets.length));
+		const rounds: number[][] = [];
+		for (let r = 0; r < roundCount; r++) {
+			const round: number[] = [];
+			for (const name of names) {
+				const setIndex = setsByName.get(name)?.[r];
+				if (setIndex !== undefined) round.push(setIndex);
+			}
+			rounds.push(round);
+		}
+
+		groups.push({ label, startIndex, endIndex, names, rounds });
+	}
+
+	return groups;
+}
+
+/**
+ * Order in which exercises are performed: file order, except that each group
+ * is replaced by its rounds (A1 → A2 → A1 → A2 ...)
+ */
+export function getWalkOrder(exercises: Exercise[]): number[] {
+	const groupsByStart = new Map(getExerciseGroups(exercises).map(g => [g.startIndex, g]));
+	const order: number[] = [];
+
+	let i = 0;
+	while (i < exercises.length) {
+		const group = groupsByStart.get(i);
+		if (group) {
+			for (const round of group.rounds) {
+				order.push(...round);
+			}
+			i = group.endIndex + 1;
+		} else {
+			order.push(i);
+			i++;
+		}
+	}
+
+	return order;
+}
+
+/**
+ * Find the next pending exercise after the given one in walk order
+ * @param afterIndex - Current exercise index, or -1 to find the first pending exercise
+ * @returns Exercise index, or -1 if nothing is left
+ */
+export function findNextPending(exercises: Exercise[], afterIndex: number): number {
+	const order = getWalkOrder(exercises);
+	const position = afterIndex >= 0 ? order.indexOf(afterIndex) : -1;
+
+	for (let p = position + 1; p < order.length; p++) {
+		const index = order[p];
+		if (index !== undefined && exercises[index]?.state === 'pending') {
+			return index;
+		}
+	}
+
+	return -1;
+}
+
+/**
+ * Whether rest should follow an exercise. Inside a group, rest is only taken
+ * after the last exercise of a round.
+ */
+export function isRestPoint(exercises: Exercise[], index: number, nextIndex: number): boolean {
+	if (nextIndex < 0) return true;
+
+	for (const group of getExerciseGroups(exercises)) {
+		const round = group.rounds.find(r => r.includes(index));
+		if (round) {
+			return !round.includes(nextIndex);
+		}
+	}
+
+	return true;
+}
+
+/**
+ * Short tag shown on a grouped exercise row, e.g. "A1" for the first exercise of group A
+ */
+export function getGroupTag(group: ExerciseGroup, exercise: Exercise): string {
+	return `${group.label}${group.names.indexOf(exercise.name) + 1}`;
+}
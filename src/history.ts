@@ -0,0 +1,323 @@
+import { App, TAbstractFile, TFile, moment } from 'obsidian';
+import { Exercise, ParsedWorkout, WorkoutLogSettings } from './types';
+import { parseWorkout } from './parser';
+import { getEffortValue } from './effort';
+import { estimateSetOneRepMax } from './e1rm';
+import { isWarmupSet } from './warmup';
+
+// One logged workout block
+export interface HistorySession {
+	filePath: string;
+	heading: string;        // Heading above the block, as written by WorkoutLogger (e.g. "Push Day - 18:30")
+	line: number;           // Line of the heading (or the code fence if there is none)
+	date: string;           // YYYY-MM-DD
+	startDate?: string;     // Full startDate from the block metadata, used for ordering
+	workout: ParsedWorkout;
+}
+
+// All sets of one exercise within one logged session
+export interface ExerciseSession {
+	session: HistorySession;
+	sets: Exercise[];
+	e1rm: number | null;    // Best estimated 1RM of the completed sets, in the preferred unit
+}
+
+const WORKOUT_BLOCK_PATTERN = /^```workout\s*$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.+)$/;
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})/;
+
+/**
+ * Normalize an exercise name for lookups (case and whitespace insensitive)
+ */
+export function normalizeExerciseName(name: string): string {
+	return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Compact description of logged sets, e.g. "60 kg × 8, 8, 7" or "× 15, 12" or "45s, 40s"
+ * Only completed working sets are included (no warm-ups), returns null if there are none
+ */
+export function formatSetsSummary(sets: Exercise[]): string | null {
+	const completed = sets.filter(set => set.state === 'completed' && !isWarmupSet(set));
+	if (completed.length === 0) return null;
+
+	const findParam = (set: Exercise, key: string) => set.params.find(p => p.key.toLowerCase() === key);
+	const parts: string[] = [];
+	let lastLoad: string | null = null;
+
+	for (const set of completed) {
+		const weight = findParam(set, 'weight');
+		const reps = findParam(set, 'reps');
+
+		if (reps) {
+			// Only repeat the load when it changes between sets
+			const load = weight ? `${weight.value}${weight.unit ? ` ${weight.unit}` : ''} ` : '';
+			if (load !== lastLoad) {
+				parts.push(`${load}× ${reps.value}`);
+				lastLoad = load;
+			} else {
+				parts.push(reps.value);
+			}
+		} else if (set.recordedDuration) {
+			parts.push(set.recordedDuration);
+		} else {
+			const first = set.params[0];
+			if (first) parts.push(`${first.value}${first.unit ? ` ${first.unit}` : ''}`);
+		}
+
+		// Effort after the set it rates, e.g. "× 8 @9" or "× 8 RIR 2"
+		const rpe = getEffortValue(set, 'rpe');
+		const rir = getEffortValue(set, 'rir');
+		const effort = rpe !== undefined ? ` @${rpe}` : rir !== undefined ? ` RIR ${rir}` : '';
+		if (effort && parts.length > 0) {
+			parts[parts.length - 1] += effort;
+		}
+	}
+
+	return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Indexes completed workouts from the log folder and keeps the index in sync with vault changes
+ */
+export class WorkoutHistory {
+	private settings: WorkoutLogSettings;
+	private sessionsByFile = new Map<string, HistorySession[]>();
+	private exerciseIndex = new Map<string, ExerciseSession[]>();
+	private listeners = new Set<() => void>();
+
+	constructor(private app: App, settings: WorkoutLogSettings) {
+		this.settings = settings;
+	}
+
+	/**
+	 * Update history settings, rebuilding the index if the log folder moved
+	 * (or just the per-exercise index when the e1RM inputs changed)
+	 */
+	updateSettings(settings: WorkoutLogSettings): void {
+		const folderChanged = settings.logFolder !== this.settings.logFolder;
+		const e1rmChanged = settings.e1rmFormula !== this.settings.e1rmFormula || settings.weightUnit !== this.settings.weightUnit;
+		this.settings = settings;
+		if (folderChanged) {
+			this.rebuild();
+		} else if (e1rmChanged) {
+			this.rebuildExerciseIndex();
+		}
+	}
+
+	/**
+	 * Subscribe to index changes, returns an unsubscribe function
+	 */
+	onChange(callback: () => void): () => void {
+		this.listeners.add(callback);
+		return () => {
+			this.listeners.delete(callback);
+		};
+	}
+
+	/**
+	 * Scan every markdown file in the log folder
+	 */
+	async rebuild(): Promise<void> {
+		this.sessionsByFile.clear();
+
+		const files = this.app.vault.getMarkdownFiles().filter(f => this.isLogFile(f.path));
+		for (const file of files) {
+			const content = await this.app.vault.cachedRead(file);
+			this.sessionsByFile.set(file.path, this.parseLogFile(file, content));
+		}
+
+		this.rebuildExerciseIndex();
+	}
+
+	// Vault event handlers (registered by the plugin)
+
+	async handleModify(file: TAbstractFile): Promise<void> {
+		if (!(file instanceof TFile) || !this.isLogFile(file.path)) return;
+
+		const content = await this.app.vault.cachedRead(file);
+		this.sessionsByFile.set(file.path, this.parseLogFile(file, content));
+		this.rebuildExerciseIndex();
+	}
+
+	handleDelete(file: TAbstractFile): void {
+		if (this.sessionsByFile.delete(file.path)) {
+			this.rebuildExerciseIndex();
+		}
+	}
+
+	async handleRename(file: TAbstractFile, oldPath: string): Promise<void> {
+		const removed = this.sessionsByFile.delete(oldPath);
+		if (file instanceof TFile && this.isLogFile(file.path)) {
+			await this.handleModify(file);
+		} else if (removed) {
+			this.rebuildExerciseIndex();
+		}
+	}
+
+	// Queries
+
+	/**
+	 * All logged sessions, oldest first
+	 */
+	getSessions(): HistorySession[] {
+		const sessions: HistorySession[] = [];
+		for (const fileSessions of this.sessionsByFile.values()) {
+			sessions.push(...fileSessions);
+		}
+		return sessions.sort(compareSessions);
+	}
+
+	/**
+	 * Names of every logged exercise (as written in the most recent session)
+	 */
+	getExerciseNames(): string[] {
+		return Array.from(this.exerciseIndex.values())
+			.map(entries => entries[entries.length - 1]?.sets[0]?.name ?? '')
+			.filter(name => name !== '')
+			.sort((a, b) => a.localeCompare(b));
+	}
+
+	/**
+	 * Every session that contains the exercise, oldest first
+	 */
+	getExerciseHistory(exerciseName: string): ExerciseSession[] {
+		return this.exerciseIndex.get(normalizeExerciseName(exerciseName)) ?? [];
+	}
+
+	/**
+	 * Sessions of the exercise on a given day (YYYY-MM-DD)
+	 */
+	getExerciseOnDate(exerciseName: string, date: string): ExerciseSession[] {
+		return this.getExerciseHistory(exerciseName).filter(entry => entry.session.date === date);
+	}
+
+	/**
+	 * Most recent session containing the exercise
+	 */
+	getLastSession(exerciseName: string): ExerciseSession | null {
+		const history = this.getExerciseHistory(exerciseName);
+		return history[history.length - 1] ?? null;
+	}
+
+	/**
+	 * Estimated 1RM per session of the exercise, oldest first (sessions without weight × reps are left out)
+	 */
+	getE1rmTrend(exerciseName: string): { date: string; e1rm: number }[] {
+		const trend: { date: string; e1rm: number }[] = [];
+		for (const entry of this.getExerciseHistory(exerciseName)) {
+			if (entry.e1rm !== null) trend.push({ date: entry.session.date, e1rm: entry.e1rm });
+		}
+		return trend;
+	}
+
+	// An empty log folder means the whole vault
+	isLogFile(path: string): boolean {
+		const folder = this.settings.logFolder.replace(/\/+$/, '');
+		return path.endsWith('.md') && (folder === '' || path.startsWith(`${folder}/`));
+	}
+
+	/**
+	 * Extract completed workout blocks (and their headings) from a log file
+	 */
+	private parseLogFile(file: TFile, content: string): HistorySession[] {
+		const lines = content.split('\n');
+		const sessions: HistorySession[] = [];
+		let heading = '';
+		let headingLine = -1;
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i] ?? '';
+
+			const headingMatch = line.match(HEADING_PATTERN);
+			if (headingMatch) {
+				heading = headingMatch[1]?.trim() ?? '';
+				headingLine = i;
+				continue;
+			}
+
+			if (!WORKOUT_BLOCK_PATTERN.test(line.trim())) continue;
+
+			// Collect block body until the closing fence
+			const start = i + 1;
+			let end = start;
+			while (end < lines.length && lines[end]?.trim() !== '```') {
+				end++;
+			}
+
+			const workout = parseWorkout(lines.slice(start, end).join('\n'));
+			if (workout.metadata.state === 'completed' && workout.exercises.length > 0) {
+				sessions.push({
+					filePath: file.path,
+					heading,
+					line: headingLine >= 0 ? headingLine : i,
+					date: this.getSessionDate(file, workout),
+					startDate: workout.metadata.startDate,
+					workout
+				});
+			}
+
+			heading = '';
+			headingLine = -1;
+			i = end;
+		}
+
+		return sessions;
+	}
+
+	/**
+	 * Session date from startDate, falling back to a dated file name, then the file creation time
+	 */
+	private getSessionDate(file: TFile, workout: ParsedWorkout): string {
+		const fromMetadata = workout.metadata.startDate?.match(DATE_PATTERN)?.[1];
+		if (fromMetadata) return fromMetadata;
+
+		const fromName = file.basename.match(DATE_PATTERN)?.[1];
+		if (fromName) return fromName;
+
+		return moment(file.stat.ctime).format('YYYY-MM-DD');
+	}
+
+	private getBestE1rm(sets: Exercise[]): number | null {
+		let best: number | null = null;
+		for (const set of sets) {
+			if (set.state !== 'completed' || isWarmupSet(set)) continue;
+			const e1rm = estimateSetOneRepMax(set.params, this.settings.e1rmFormula, this.settings.weightUnit);
+			if (e1rm !== null && (best === null || e1rm > best)) best = e1rm;
+		}
+		return best;
+	}
+
+	private rebuildExerciseIndex(): void {
+		this.exerciseIndex.clear();
+
+		for (const session of this.getSessions()) {
+			// Group sets in this session by exercise name
+			const setsByName = new Map<string, Exercise[]>();
+			for (const exercise of session.workout.exercises) {
+				const key = normalizeExerciseName(exercise.name);
+				const sets = setsByName.get(key) ?? [];
+				sets.push(exercise);
+				setsByName.set(key, sets);
+			}
+
+			for (const [key, sets] of setsByName) {
+				const entries = this.exerciseIndex.get(key) ?? [];
+				entries.push({ session, sets, e1rm: this.getBestE1rm(sets) });
+				this.exerciseIndex.set(key, entries);
+			}
+		}
+
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+}
+
+function compareSessions(a: HistorySession, b: HistorySession): number {
+	const aKey = a.startDate ?? a.date;
+	const bKey = b.startDate ?? b.date;
+	if (aKey !== bKey) return aKey < bKey ? -1 : 1;
+	if (a.filePath !== b.filePath) return a.filePath < b.filePath ? -1 : 1;
+	return a.line - b.line;
+}
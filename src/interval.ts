@@ -0,0 +1,225 @@
+import { Exercise, IntervalMode, IntervalState, IntervalTimer, ParsedWorkout, WorkoutMetadata } from './types';
+import { getPlannedParams } from './autoregulation';
+import { formatDurationHuman } from './parser/exercise';
+
+export const DEFAULT_EMOM_INTERVAL = 60;
+export const DEFAULT_TABATA_WORK = 20;
+export const DEFAULT_TABATA_REST = 10;
+
+// Rounds when a block doesn't set them
+const DEFAULT_ROUNDS: Record<IntervalMode, number> = {
+	emom: 10,
+	tabata: 8,
+	fortime: 1,
+	amrap: 1
+};
+
+/**
+ * Whether the clock moves through the lines (EMOM, Tabata) rather than the user (AMRAP, for time)
+ */
+export function isClockDriven(mode: IntervalMode | undefined): boolean {
+	return mode === 'emom' || mode === 'tabata';
+}
+
+function getIntervalLength(metadata: WorkoutMetadata): number {
+	if (metadata.mode === 'tabata') {
+		return (metadata.work ?? DEFAULT_TABATA_WORK) + (metadata.rest ?? DEFAULT_TABATA_REST);
+	}
+	return metadata.interval ?? DEFAULT_EMOM_INTERVAL;
+}
+
+/**
+ * Rounds of an interval block. An EMOM with only a cap runs as many full rounds as fit in it.
+ */
+export function getIntervalRounds(metadata: WorkoutMetadata, movements: number): number {
+	if (!metadata.mode) return 1;
+	if (metadata.rounds !== undefined) return metadata.rounds;
+	if (metadata.mode === 'emom' && metadata.cap !== undefined) {
+		return Math.max(1, Math.floor(metadata.cap / (getIntervalLength(metadata) * Math.max(1, movements))));
+	}
+	return DEFAULT_ROUNDS[metadata.mode];
+}
+
+/**
+ * Short description for the block header, e.g. "EMOM 1m × 10", "Tabata 20s/10s × 8", "AMRAP 12m"
+ */
+export function describeIntervalMode(metadata: WorkoutMetadata, exercises: Exercise[]): string {
+	const mode = metadata.mode;
+	if (!mode) return '';
+
+	// Rounds already added to a started block don't change the plan
+	const rounds = getIntervalRounds(metadata, getRoundLines(exercises, 1).length);
+	const cap = metadata.cap !== undefined ? formatDurationHuman(metadata.cap) : undefined;
+	switch (mode) {
+		case 'emom':
+			return `EMOM ${formatDurationHuman(getIntervalLength(metadata))} × ${rounds}`;
+		case 'tabata':
+			return `Tabata ${formatDurationHuman(metadata.work ?? DEFAULT_TABATA_WORK)}/${formatDurationHuman(metadata.rest ?? DEFAULT_TABATA_REST)} × ${rounds}`;
+		case 'amrap':
+			return cap ? `AMRAP ${cap}` : 'AMRAP';
+		case 'fortime': {
+			const label = rounds > 1 ? `${rounds} rounds for time` : 'For time';
+			return cap ? `${label}, cap ${cap}` : label;
+		}
+	}
+}
+
+/**
+ * Clock for a started interval block, with one interval per line for EMOM and Tabata
+ */
+export function getIntervalTimer(workout: ParsedWorkout): IntervalTimer | undefined {
+	const { metadata } = workout;
+	if (!metadata.mode) return undefined;
+
+	const movements = getRoundLines(workout.exercises, 1).length || workout.exercises.length;
+	if (!isClockDriven(metadata.mode)) {
+		return { mode: metadata.mode, movements, cap: metadata.cap };
+	}
+
+	return {
+		mode: metadata.mode,
+		length: getIntervalLength(metadata),
+		work: metadata.mode === 'tabata' ? metadata.work ?? DEFAULT_TABATA_WORK : undefined,
+		intervals: workout.exercises.length,
+		movements
+	};
+}
+
+/**
+ * Where the clock of an interval block is after some seconds
+ */
+export function getIntervalState(timer: IntervalTimer, elapsed: number): IntervalState {
+	if (timer.length === undefined || timer.intervals === undefined) {
+		const capRemaining = timer.cap !== undefined ? Math.max(0, timer.cap - elapsed) : undefined;
+		return {
+			mode: timer.mode,
+			slot: -1,
+			phase: 'work',
+			capRemaining,
+			isOver: capRemaining === 0
+		};
+	}
+
+	const total = timer.length * timer.intervals;
+	const isOver = elapsed >= total;
+	const slot = Math.min(Math.floor(elapsed / timer.length), timer.intervals - 1);
+	const offset = isOver ? timer.length : elapsed - slot * timer.length;
+	const isRest = timer.work !== undefined && offset >= timer.work;
+	const movements = Math.max(1, timer.movements);
+
+	return {
+		mode: timer.mode,
+		slot,
+		round: Math.floor(slot / movements) + 1,
+		rounds: Math.ceil(timer.intervals / movements),
+		phase: isRest ? 'rest' : 'work',
+		phaseRemaining: isRest || timer.work === undefined ? timer.length - offset : timer.work - offset,
+		capRemaining: Math.max(0, total - elapsed),
+		isOver
+	};
+}
+
+function getRoundLines(exercises: Exercise[], round: number): Exercise[] {
+	return exercises.filter(exercise => (exercise.round ?? 1) === round);
+}
+
+function copyRound(template: Exercise[], round: number): Exercise[] {
+	return template.map(exercise => ({
+		...structuredClone(exercise),
+		state: 'pending' as const,
+		params: getPlannedParams(exercise.params),
+		recordedDuration: undefined,
+		restTaken: undefined,
+		records: undefined,
+		round
+	}));
+}
+
+/**
+ * Number the lines of an interval block as round 1 and append the other rounds it runs
+ * (AMRAP rounds are added one at a time as they are reached)
+ */
+export function addIntervalRounds(workout: ParsedWorkout): ParsedWorkout {
+	const result = structuredClone(workout);
+	const mode = result.metadata.mode;
+	if (!mode || result.exercises.some(exercise => exercise.round !== undefined)) return result;
+
+	const template: Exercise[] = result.exercises.map(exercise => ({ ...exercise, round: 1 }));
+	const rounds = mode === 'amrap' ? 1 : getIntervalRounds(result.metadata, template.length);
+	const exercises = [...template];
+	for (let round = 2; round <= rounds; round++) {
+		exercises.push(...copyRound(template, round));
+	}
+
+	result.exercises = exercises.map((exercise, index) => ({ ...exercise, lineIndex: index }));
+	return result;
+}
+
+/**
+ * Append the next round of an AMRAP after the last line of the current one is done
+ */
+export function addIntervalRound(workout: ParsedWorkout): ParsedWorkout {
+	const result = structuredClone(workout);
+	const lastRound = result.exercises.reduce((max, exercise) => Math.max(max, exercise.round ?? 1), 1);
+	const template = getRoundLines(result.exercises, 1);
+
+	result.exercises = [...result.exercises, ...copyRound(template, lastRound + 1)]
+		.map((exercise, index) => ({ ...exercise, lineIndex: index }));
+	return result;
+}
+
+/**
+ * Copy of the workout with only the first round's lines, unnumbered (line indices renumbered)
+ */
+export function removeIntervalRounds(workout: ParsedWorkout): ParsedWorkout {
+	const result = structuredClone(workout);
+	result.exercises = result.exercises
+		.filter(exercise => (exercise.round ?? 1) === 1)
+		.map((exercise, index) => ({ ...exercise, round: undefined, lineIndex: index }));
+	return result;
+}
+
+function countReps(exercises: Exercise[]): number {
+	let reps = 0;
+	for (const exercise of exercises) {
+		const value = parseFloat(exercise.params.find(p => p.key.toLowerCase() === 'reps')?.value ?? '');
+		if (!isNaN(value)) reps += value;
+	}
+	return reps;
+}
+
+/**
+ * What an interval block achieved, for the log:
+ * "5 rounds + 12 reps" (AMRAP or a capped for time), "8/10 rounds, 96 reps" (EMOM, Tabata),
+ * or the time of a for time block where every line was done
+ */
+export function getIntervalResult(workout: ParsedWorkout): string | undefined {
+	const { metadata, exercises } = workout;
+	if (!metadata.mode) return undefined;
+
+	const completed = exercises.filter(exercise => exercise.state === 'completed');
+	const lastRound = exercises.reduce((max, exercise) => Math.max(max, exercise.round ?? 1), 1);
+	const fullRounds = new Set<number>();
+	for (let round = 1; round <= lastRound; round++) {
+		if (getRoundLines(exercises, round).every(exercise => exercise.state === 'completed')) fullRounds.add(round);
+	}
+	const reps = countReps(completed);
+
+	if (isClockDriven(metadata.mode)) {
+		const summary = `${fullRounds.size}/${lastRound} rounds`;
+		return reps > 0 ? `${summary}, ${reps} reps` : summary;
+	}
+
+	const time = metadata.activeDuration ?? metadata.duration;
+	if (metadata.mode === 'fortime' && completed.length === exercises.length && time) {
+		return time;
+	}
+
+	// Reps of the round that was cut short
+	const partial = completed.filter(exercise => !fullRounds.has(exercise.round ?? 1));
+	const partialReps = countReps(partial);
+	const summary = `${fullRounds.size} ${fullRounds.size === 1 ? 'round' : 'rounds'}`;
+	if (partialReps > 0) return `${summary} + ${partialReps} reps`;
+	if (partial.length > 0) return `${summary} + ${partial.length} ${partial.length === 1 ? 'exercise' : 'exercises'}`;
+	return summary;
+}
@@ -1,6 +1,10 @@
-import { App, TFile, moment } from 'obsidian';
+import { App, Notice, TFile, moment } from 'obsidian';
 import { ParsedWorkout, LogGrouping, WorkoutLogSettings } from './types';
 import { serializeWorkout } from './serializer';
+import { PersonalRecord, annotateRecords, formatRecord } from './records';
+import { removeUnratedEffort } from './effort';
+import { findProgramSource, parseProgram, updateProgramPointerInText } from './program/parser';
+import { getNextProgramPointer, parseProgramRef } from './program/generator';
 
 export class WorkoutLogger {
 	private settings: WorkoutLogSettings;
@@ -57,14 +61,14 @@ export class WorkoutLogger {
 	/**
 	 * Log a completed workout to the appropriate log file
 	 */
-	async logWorkout(workout: ParsedWorkout): Promise<void> {
+	async logWorkout(workout: ParsedWorkout, records: PersonalRecord[] = []): Promise<void> {
 		const { logFolder, logGrouping } = this.settings;
 		
 		// Ensure log folder exists
 		await this.ensureFolder(logFolder);
 
 		const filePath = this.getLogFilePath();
-		const workoutMarkdown = this.formatWorkoutLog(workout);
+		const workoutMarkdown = this.formatWorkoutLog(workout, records);
 
 		// Get or create the log file
 		let file = this.app.vault.getAbstractFileByPath(filePath);
@@ -85,6 +89,38 @@ export class WorkoutLogger {
 			
 			await this.app.vault.create(filePath, initialContent + workoutMarkdown);
 		}
+
+		if (workout.metadata.program) {
+			await this.advanceProgram(workout.metadata.program);
+		}
+	}
+
+	/**
+	 * Move the pointer of the program a logged workout was generated from past its day
+	 */
+	private async advanceProgram(programRef: string): Promise<void> {
+		const ref = parseProgramRef(programRef);
+		if (!ref) return;
+
+		const file = this.app.vault.getAbstractFileByPath(ref.path);
+		if (!(file instanceof TFile)) {
+			console.warn('[Workout Log] Program note not found:', ref.path);
+			return;
+		}
+
+		// Set inside process() so the pointer is read and written in one step
+		const result: { next: { week: number; day: number } | null } = { next: null };
+		await this.app.vault.process(file, (content) => {
+			const source = findProgramSource(content);
+			if (source === null) return content;
+
+			result.next = getNextProgramPointer(parseProgram(source), ref);
+			return result.next ? updateProgramPointerInText(content, result.next.week, result.next.day) : content;
+		});
+
+		if (result.next && result.next.week !== ref.week) {
+			new Notice(`Program moved to week ${result.next.week} - generate its workouts from ${file.basename}`);
+		}
 	}
 
 	/**
@@ -100,11 +136,16 @@ export class WorkoutLogger {
 	/**
 	 * Format a workout as markdown for logging
 	 */
-	private formatWorkoutLog(workout: ParsedWorkout): string {
+	private formatWorkoutLog(workout: ParsedWorkout, records: PersonalRecord[] = []): string {
 		const timestamp = moment().format('HH:mm');
-		const serialized = serializeWorkout(workout);
+		const serialized = serializeWorkout(annotateRecords(removeUnratedEffort(workout), records));
+
+		// List personal records below the block
+		const recordLines = records.length > 0
+			? records.map(record => `- 🏆 ${formatRecord(record)}`).join('\n') + '\n\n'
+			: '';
 		
-		return `## ${workout.metadata.title || 'Workout'} - ${timestamp}\n\n\`\`\`workout\n${serialized}\n\`\`\`\n\n\n`;
+		return `## ${workout.metadata.title || 'Workout'} - ${timestamp}\n\n\`\`\`workout\n${serialized}\n\`\`\`\n\n${recordLines}\n`;
 	}
 
 	/**
@@ -1,40 +1,235 @@
-import { Plugin, MarkdownPostProcessorContext } from 'obsidian';
+import { Plugin, MarkdownPostProcessorContext, MarkdownView, Editor, Notice, TFile } from 'obsidian';
 import { parseWorkout } from './parser';
-import { serializeWorkout, updateParamValue, updateExerciseState, addSet, setRecordedDuration, lockAllFields, createSampleWorkout } from './serializer';
+import { serializeWorkout, updateParamValue, updateExerciseState, addSet, setRecordedDuration, setRestTaken, lockAllFields, createSampleWorkout } from './serializer';
 import { renderWorkout } from './renderer';
 import { TimerManager } from './timer/manager';
+import { CuePlayer } from './timer/cues';
+import { AutoStep, getDueStep, getStepKey } from './timer/autoAdvance';
 import { FileUpdater } from './file/updater';
-import { ParsedWorkout, WorkoutCallbacks, SectionInfo, Exercise, WorkoutLogSettings, ExerciseParam } from './types';
+import { ParsedWorkout, WorkoutCallbacks, SectionInfo, Exercise, WorkoutLogSettings, ExerciseParam, PersistedTimer, WorkoutLogData, WorkoutAction, TimerState } from './types';
 import { formatDurationHuman } from './parser/exercise';
 import { DEFAULT_SETTINGS, WorkoutLogSettingTab } from './settings';
 import { WorkoutLogger } from './logger';
-import { applyProgression } from './progression';
+import { WorkoutHistory } from './history';
+import { applyProgression, resetParamsForNewSet } from './progression';
+import { getEffortValue } from './effort';
+import { ExerciseProgressionReport, buildProgressionPreview } from './preview';
+import { ProgressionPreviewModal } from './ui/ProgressionPreviewModal';
+import { ProgressionOutcome, countPreviousMisses, getProgressionOutcome, getPlannedParams, deloadParams } from './autoregulation';
+import { findNextPending, isRestPoint } from './groups';
+import { detectRecords, getEstimatedOneRepMax } from './records';
+import { estimateSetOneRepMax } from './e1rm';
+import { addWarmupSets, isWarmupSet, removeWarmupSets } from './warmup';
+import { resolveWorkoutLoads } from './percentage';
+import { addIntervalRound, addIntervalRounds, getIntervalResult, getIntervalTimer, isClockDriven, removeIntervalRounds } from './interval';
+import { parseStatsOptions } from './stats/options';
+import { renderStats } from './renderer/stats';
+import { WorkoutCalendarView, VIEW_TYPE_WORKOUT_CALENDAR } from './ui/CalendarView';
+import { ActiveWorkoutIndicator } from './ui/ActiveWorkoutIndicator';
+import { WorkoutSessionView, VIEW_TYPE_WORKOUT_SESSION } from './ui/SessionView';
+import { convertWorkoutBlocksInText } from './units';
+import { findProgramSource, parseProgram, updateProgramPointerInText } from './program/parser';
+import { applyWeekToText } from './program/generator';
+import { renderProgram } from './renderer/program';
 
 export default class WorkoutLogPlugin extends Plugin {
 	private timerManager: TimerManager = new TimerManager();
 	private fileUpdater: FileUpdater | null = null;
 	logger: WorkoutLogger | null = null;
+	history: WorkoutHistory | null = null;
+	private cues: CuePlayer | null = null;
 	settings: WorkoutLogSettings = DEFAULT_SETTINGS;
+	// Snapshots of running timers, saved alongside settings so workouts survive reloads
+	private persistedTimers: Record<string, PersistedTimer> = {};
+	// Latest content of started workout blocks, for the status bar and panel outside the note
+	private knownWorkouts: Map<string, ParsedWorkout> = new Map();
+	// Callbacks of the rendered block of each started workout, whose param edits may not be written yet
+	private liveCallbacks: Map<string, WorkoutCallbacks> = new Map();
+	// Views holding values not written yet (the session view's steppers), flushed the same way
+	private pendingWriters: Set<(workoutId: string) => Promise<void>> = new Set();
+	// Last automatic step taken per workout (e.g. "rest-complete:3"), so each is taken once
+	private autoSteps: Map<string, string> = new Map();
+	// Workouts whose block is being read from the file
+	private loadingWorkouts: Set<string> = new Set();
+	private indicator: ActiveWorkoutIndicator | null = null;
 
 	async onload(): Promise<void> {
 		// Load settings
 		await this.loadSettings();
 
+		// Keep persisted timers in sync with the timer manager
+		this.timerManager.setPersistCallback((workoutId, snapshot) => {
+			if (snapshot) {
+				this.persistedTimers[workoutId] = snapshot;
+			} else {
+				delete this.persistedTimers[workoutId];
+			}
+			this.savePluginData();
+		});
+
 		// Initialize services
 		this.fileUpdater = new FileUpdater(this.app);
 		this.logger = new WorkoutLogger(this.app, this.settings);
+		const history = new WorkoutHistory(this.app, this.settings);
+		this.history = history;
+		this.cues = new CuePlayer(this.settings);
+
+		// Rests, countdowns and interval clocks move workouts on whether or not their note is open
+		this.timerManager.subscribeAll((workoutId, state) => this.handleTimerTick(workoutId, state));
+
+		// Index logged workouts once the vault is ready, then keep the index fresh
+		// (vault events are registered late so the initial 'create' flood on startup is skipped)
+		this.app.workspace.onLayoutReady(() => {
+			this.history?.rebuild().catch(error => console.error('[Workout Log] Could not index logged workouts:', error));
+			this.registerEvent(this.app.vault.on('create', file => this.history?.handleModify(file)));
+			this.registerEvent(this.app.vault.on('modify', file => this.history?.handleModify(file)));
+			this.registerEvent(this.app.vault.on('delete', file => this.history?.handleDelete(file)));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.history?.handleRename(file, oldPath)));
+		});
+
+		// Running workout in the status bar (and the floating panel) outside its note
+		this.app.workspace.onLayoutReady(() => {
+			this.restorePersistedTimers();
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.handleWorkoutNoteRename(file.path, oldPath)));
+			this.registerEvent(this.app.vault.on('delete', file => this.handleWorkoutNoteDelete(file.path)));
+			this.indicator = new ActiveWorkoutIndicator(this, this.timerManager);
+			this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.indicator?.refresh()));
+		});
 
 		// Register settings tab
 		this.addSettingTab(new WorkoutLogSettingTab(this.app, this));
 
+		// Register the training calendar view
+		this.registerView(VIEW_TYPE_WORKOUT_CALENDAR, leaf => new WorkoutCalendarView(leaf, history, () => this.settings.weightUnit));
+		this.addRibbonIcon('calendar-days', 'Open training calendar', () => {
+			this.activateCalendarView();
+		});
+		this.addCommand({
+			id: 'open-training-calendar',
+			name: 'Open training calendar',
+			callback: () => {
+				this.activateCalendarView();
+			}
+		});
+
+		// Full-screen view of the running workout, one exercise at a time
+		this.registerView(VIEW_TYPE_WORKOUT_SESSION, leaf => new WorkoutSessionView(leaf, this, this.timerManager));
+		this.addCommand({
+			id: 'open-workout-session',
+			name: 'Open session view for running workout',
+			callback: () => {
+				this.activateSessionView(this.timerManager.getRunningWorkoutIds()[0] ?? null);
+			}
+		});
+
+		// Control the running workout from the command palette or hotkeys
+		this.addCommand({
+			id: 'start-workout',
+			name: 'Start workout in current note',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view?.file || !this.hasPlannedWorkout(view.editor)) return false;
+				if (!checking) {
+					this.startWorkoutInNote(view);
+				}
+				return true;
+			}
+		});
+		const workoutCommands: { id: WorkoutAction; name: string; duringRest: boolean }[] = [
+			{ id: 'finish-exercise', name: 'Finish current exercise', duringRest: false },
+			{ id: 'add-set', name: 'Add set to current exercise', duringRest: false },
+			{ id: 'skip-exercise', name: 'Skip current exercise', duringRest: false },
+			{ id: 'skip-rest', name: 'Skip rest', duringRest: true },
+			{ id: 'toggle-pause', name: 'Pause or resume workout', duringRest: true },
+			{ id: 'finish-workout', name: 'Finish workout', duringRest: true }
+		];
+		for (const command of workoutCommands) {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				checkCallback: (checking) => {
+					const workoutId = this.getCommandWorkoutId();
+					if (!workoutId) return false;
+					// Exercise commands wait for the rest to end, skip rest only applies while resting
+					const isResting = this.timerManager.isResting(workoutId);
+					if (command.id === 'skip-rest' ? !isResting : isResting && !command.duringRest) return false;
+					if (!checking) {
+						this.runWorkoutAction(workoutId, command.id);
+					}
+					return true;
+				}
+			});
+		}
+
+		// Weight unit conversion (to the unit configured in settings)
+		this.addCommand({
+			id: 'convert-block-weight-unit',
+			name: 'Convert workout block under cursor to preferred weight unit',
+			editorCheckCallback: (checking, editor) => {
+				const block = this.getWorkoutBlockAtCursor(editor);
+				if (!block) return false;
+				if (!checking) {
+					this.convertBlockWeightUnit(editor, block);
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: 'preview-progression',
+			name: 'Preview next workout for block under cursor',
+			editorCheckCallback: (checking, editor) => {
+				const block = this.getWorkoutBlockAtCursor(editor);
+				if (!block) return false;
+				if (!checking) {
+					this.showProgressionPreview(parseWorkout(this.getBlockSource(editor, block)));
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: 'generate-program-week',
+			name: 'Generate current week from program',
+			editorCheckCallback: (checking, editor, view) => {
+				const file = view.file;
+				if (!file || findProgramSource(editor.getValue()) === null) return false;
+				if (!checking) {
+					this.generateProgramWeek(file);
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: 'convert-log-folder-weight-unit',
+			name: 'Convert log folder to preferred weight unit',
+			callback: () => {
+				this.convertLogFolderWeightUnit();
+			}
+		});
+
 		// Register the workout code block processor
 		this.registerMarkdownCodeBlockProcessor('workout', (source, el, ctx) => {
 			this.processWorkoutBlock(source, el, ctx);
 		});
+
+		// Register the workout-program code block processor (multi-week plans generating workout blocks)
+		this.registerMarkdownCodeBlockProcessor('workout-program', (source, el, ctx) => {
+			renderProgram(el, parseProgram(source), () => {
+				const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+				if (file instanceof TFile) this.generateProgramWeek(file);
+			});
+		});
+
+		// Register the workout-stats code block processor (charts from logged sessions)
+		this.registerMarkdownCodeBlockProcessor('workout-stats', (source, el) => {
+			this.processStatsBlock(source, el);
+		});
 	}
 
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = (await this.loadData()) as Partial<WorkoutLogData> | null;
+		const { activeTimers, ...settings } = data ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		this.persistedTimers = activeTimers ?? {};
 		// Update logger settings if logger exists
 		if (this.logger) {
 			this.logger.updateSettings(this.settings);
@@ -42,15 +237,468 @@ export default class WorkoutLogPlugin extends Plugin {
 	}
 
 	async saveSettings(): Promise<void> {
-		await this.saveData(this.settings);
+		await this.savePluginData();
 		// Update logger settings
 		if (this.logger) {
 			this.logger.updateSettings(this.settings);
 		}
+		this.history?.updateSettings(this.settings);
+		this.cues?.updateSettings(this.settings);
+		this.indicator?.refresh();
+	}
+
+	async activateCalendarView(): Promise<void> {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_WORKOUT_CALENDAR)[0];
+		if (existing) {
+			this.app.workspace.revealLeaf(existing);
+			return;
+		}
+
+		const leaf = this.app.workspace.getLeaf('tab');
+		await leaf.setViewState({ type: VIEW_TYPE_WORKOUT_CALENDAR, active: true });
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Show a workout in the session view, reusing an open one
+	 */
+	async activateSessionView(workoutId: string | null): Promise<void> {
+		const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_WORKOUT_SESSION)[0] ?? this.app.workspace.getLeaf('tab');
+		await leaf.setViewState({ type: VIEW_TYPE_WORKOUT_SESSION, active: true, state: { workoutId } });
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	private getBlockSource(editor: Editor, block: SectionInfo): string {
+		const lines: string[] = [];
+		for (let i = block.lineStart + 1; i < block.lineEnd; i++) {
+			lines.push(editor.getLine(i));
+		}
+		return lines.join('\n');
+	}
+
+	/**
+	 * Find the ```workout block containing the cursor (fence lines inclusive)
+	 */
+	private getWorkoutBlockAtCursor(editor: Editor): SectionInfo | null {
+		const cursorLine = editor.getCursor().line;
+
+		let start = -1;
+		for (let i = cursorLine; i >= 0; i--) {
+			const line = editor.getLine(i).trim();
+			if (line === '```workout') {
+				start = i;
+				break;
+			}
+			// Hit the end of another block first: cursor is outside any block
+			if (line.startsWith('```') && i !== cursorLine) return null;
+		}
+		if (start < 0) return null;
+
+		for (let i = start + 1; i < editor.lineCount(); i++) {
+			if (editor.getLine(i).trim() === '```') {
+				return i >= cursorLine ? { lineStart: start, lineEnd: i } : null;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Dry-run the reset on a copy and show what changes, without writing anything
+	 */
+	private showProgressionPreview(parsed: ParsedWorkout): void {
+		parsed = removeIntervalRounds(removeWarmupSets(parsed));
+		const report: ExerciseProgressionReport[] = [];
+		const next = this.resetWorkout(structuredClone(parsed), report);
+		const preview = buildProgressionPreview(parsed, next, report, this.settings.deloadPercent);
+		new ProgressionPreviewModal(this.app, preview, parsed.metadata.title || 'Workout').open();
+	}
+
+	private convertBlockWeightUnit(editor: Editor, block: SectionInfo): void {
+		const unit = this.settings.weightUnit;
+		const lines: string[] = [];
+		for (let i = block.lineStart; i <= block.lineEnd; i++) {
+			lines.push(editor.getLine(i));
+		}
+
+		const result = convertWorkoutBlocksInText(lines.join('\n'), unit);
+		if (result.changed === 0) {
+			new Notice(`No weights to convert to ${unit}`);
+			return;
+		}
+
+		editor.replaceRange(
+			result.content,
+			{ line: block.lineStart, ch: 0 },
+			{ line: block.lineEnd, ch: editor.getLine(block.lineEnd).length }
+		);
+		new Notice(`Converted ${result.changed} weight(s) to ${unit}`);
+	}
+
+	private async convertLogFolderWeightUnit(): Promise<void> {
+		const unit = this.settings.weightUnit;
+		const history = this.history;
+		if (!history) return;
+		const files = this.app.vault.getMarkdownFiles().filter(f => history.isLogFile(f.path));
+
+		let changed = 0;
+		let changedFiles = 0;
+		for (const file of files) {
+			await this.app.vault.process(file, (content) => {
+				const result = convertWorkoutBlocksInText(content, unit);
+				if (result.changed > 0) {
+					changed += result.changed;
+					changedFiles++;
+				}
+				return result.content;
+			});
+		}
+
+		new Notice(`Converted ${changed} weight(s) to ${unit} in ${changedFiles} file(s)`);
+	}
+
+	/**
+	 * Write the workout blocks for the program's current week into its note
+	 */
+	private async generateProgramWeek(file: TFile): Promise<void> {
+		const unit = this.settings.weightUnit;
+		let message = '';
+
+		await this.app.vault.process(file, (content) => {
+			const source = findProgramSource(content);
+			if (source === null) return content;
+
+			const program = parseProgram(source);
+			const error = program.errors[0];
+			if (error) {
+				message = `Program has errors: ${error}`;
+				return content;
+			}
+
+			// Write the pointer lines now so advancing it later doesn't shift the generated blocks
+			const withPointer = updateProgramPointerInText(content, program.week, program.day);
+			const result = applyWeekToText(withPointer, program, program.week, file.path, unit);
+			message = `Week ${program.week}: wrote ${result.written} workout(s)`
+				+ (result.kept > 0 ? `, kept ${result.kept} already started` : '');
+			return result.content;
+		});
+
+		if (message) new Notice(message);
+	}
+
+	private async savePluginData(): Promise<void> {
+		const data: WorkoutLogData = {
+			...this.settings,
+			activeTimers: this.persistedTimers
+		};
+		await this.saveData(data);
 	}
 
 	onunload(): void {
 		this.timerManager.destroy();
+		this.cues?.destroy();
+		this.indicator?.destroy();
+	}
+
+	getWorkoutPath(workoutId: string): string {
+		return workoutId.slice(0, workoutId.lastIndexOf(':'));
+	}
+
+	getKnownWorkout(workoutId: string): ParsedWorkout | null {
+		return this.knownWorkouts.get(workoutId) ?? null;
+	}
+
+	/**
+	 * Find a workout block in its file by workout ID (note path + hash of title and exercises)
+	 */
+	private async findWorkoutBlock(workoutId: string): Promise<{ sectionInfo: SectionInfo; source: string } | null> {
+		const hash = workoutId.slice(workoutId.lastIndexOf(':') + 1);
+		const block = await this.fileUpdater?.findWorkoutBlock(
+			this.getWorkoutPath(workoutId),
+			source => this.getWorkoutHash(parseWorkout(source)) === hash
+		);
+		return block ?? null;
+	}
+
+	/**
+	 * Callbacks for a workout block read from its file, for controls outside the rendered block
+	 */
+	async getWorkoutControls(workoutId: string): Promise<{ parsed: ParsedWorkout; callbacks: WorkoutCallbacks } | null> {
+		// Edits still pending in the rendered block or a view would be overwritten otherwise
+		await this.liveCallbacks.get(workoutId)?.onFlushChanges();
+		for (const writer of this.pendingWriters) {
+			await writer(workoutId);
+		}
+
+		const block = await this.findWorkoutBlock(workoutId);
+		if (!block) return null;
+
+		const parsed = parseWorkout(block.source);
+		if (parsed.metadata.state === 'started') {
+			this.knownWorkouts.set(workoutId, parsed);
+		}
+		const callbacks = this.createCallbacks(this.getWorkoutPath(workoutId), () => null, parsed, workoutId);
+		return { parsed, callbacks };
+	}
+
+	/**
+	 * Restart the timers saved before a reload or crash, so running workouts show and move on
+	 * before their note is opened. Each block is checked on the first tick, see loadKnownWorkout.
+	 */
+	private restorePersistedTimers(): void {
+		for (const snapshot of Object.values(this.persistedTimers)) {
+			this.timerManager.restoreTimer(snapshot);
+		}
+	}
+
+	/**
+	 * Running workouts in a note, or in any note below a folder
+	 */
+	private getRunningWorkoutsIn(path: string): string[] {
+		return this.timerManager.getRunningWorkoutIds().filter(workoutId => {
+			const workoutPath = this.getWorkoutPath(workoutId);
+			return workoutPath === path || workoutPath.startsWith(`${path}/`);
+		});
+	}
+
+	// The workout ID starts with the note path, so a renamed or moved note takes its timers along
+	private handleWorkoutNoteRename(path: string, oldPath: string): void {
+		for (const workoutId of this.getRunningWorkoutsIn(oldPath)) {
+			const newWorkoutId = path + workoutId.slice(oldPath.length);
+			const parsed = this.knownWorkouts.get(workoutId);
+			if (parsed) this.knownWorkouts.set(newWorkoutId, parsed);
+			this.knownWorkouts.delete(workoutId);
+			this.cues?.clear(workoutId);
+			this.timerManager.renameTimer(workoutId, newWorkoutId);
+		}
+	}
+
+	private handleWorkoutNoteDelete(path: string): void {
+		for (const workoutId of this.getRunningWorkoutsIn(path)) {
+			this.knownWorkouts.delete(workoutId);
+			this.timerManager.stopWorkoutTimer(workoutId);
+		}
+	}
+
+	/**
+	 * Have a view's unwritten values flushed before its workout block is read and changed
+	 * @returns Function that removes the writer again
+	 */
+	addPendingWriter(writer: (workoutId: string) => Promise<void>): () => void {
+		this.pendingWriters.add(writer);
+		return () => this.pendingWriters.delete(writer);
+	}
+
+	/**
+	 * Read a started workout that hasn't been rendered since the plugin loaded (e.g. restored after a restart).
+	 * Its timer is stopped when the block is gone or no longer started.
+	 */
+	async loadKnownWorkout(workoutId: string): Promise<void> {
+		if (this.loadingWorkouts.has(workoutId)) return;
+		this.loadingWorkouts.add(workoutId);
+		try {
+			const controls = await this.getWorkoutControls(workoutId);
+			if (controls?.parsed.metadata.state !== 'started') {
+				// Deleted, renamed or finished elsewhere, drop the stale snapshot
+				this.timerManager.stopWorkoutTimer(workoutId);
+			}
+		} catch (error) {
+			console.error('[Workout Log] Could not read workout block:', error);
+		} finally {
+			this.loadingWorkouts.delete(workoutId);
+		}
+	}
+
+	/**
+	 * Play the running workout's cues and take the step its clock has reached: end the rest,
+	 * finish a Duration countdown, move an EMOM/Tabata to its next line or end an interval block
+	 */
+	private handleTimerTick(workoutId: string, state: TimerState | null): void {
+		if (!state) {
+			this.autoSteps.delete(workoutId);
+			this.liveCallbacks.delete(workoutId);
+			return;
+		}
+
+		const parsed = this.knownWorkouts.get(workoutId);
+		const activeIndex = this.timerManager.getActiveExerciseIndex(workoutId);
+		this.playCues(workoutId, state, activeIndex, parsed);
+		if (!parsed) {
+			this.loadKnownWorkout(workoutId);
+			return;
+		}
+
+		const step = getDueStep(parsed, activeIndex, state);
+		if (!step) {
+			// Nothing due any more, so the same step can be taken again (e.g. after an undo)
+			this.autoSteps.delete(workoutId);
+			return;
+		}
+
+		const key = getStepKey(step);
+		if (this.autoSteps.get(workoutId) === key) return;
+		this.autoSteps.set(workoutId, key);
+		this.runAutoStep(workoutId, step);
+	}
+
+	/**
+	 * Interval cues (a long beep as each phase starts, 3-2-1 before it ends or before the cap),
+	 * then the rest or Duration countdown of the active line
+	 */
+	private playCues(workoutId: string, state: TimerState, activeIndex: number, parsed: ParsedWorkout | undefined): void {
+		const cues = this.cues;
+		if (!cues) return;
+
+		const clock = state.interval;
+		if (clock) {
+			if (clock.phaseRemaining !== undefined) {
+				if (!clock.isOver) cues.transition(workoutId, 'interval', `${clock.slot}:${clock.phase}`);
+				cues.countdown(workoutId, 'interval', `${clock.slot}:${clock.phase}`, clock.phaseRemaining);
+			} else if (clock.capRemaining !== undefined) {
+				cues.countdown(workoutId, 'interval', 'cap', clock.capRemaining);
+			}
+		}
+
+		if (state.isResting) {
+			if (state.restRemaining !== undefined) {
+				cues.countdown(workoutId, 'rest', `rest:${activeIndex}`, state.restRemaining);
+			}
+			return;
+		}
+
+		// The Duration of the active line is only known once its block has been read
+		const exercise = parsed?.exercises[activeIndex];
+		if (exercise?.targetDuration !== undefined && exercise.state === 'inProgress') {
+			cues.countdown(workoutId, 'countdown', `duration:${activeIndex}`, exercise.targetDuration - state.exerciseElapsed);
+		}
+	}
+
+	private async runAutoStep(workoutId: string, step: AutoStep): Promise<void> {
+		try {
+			const controls = await this.getWorkoutControls(workoutId);
+			if (!controls) return;
+
+			const { callbacks } = controls;
+			switch (step.kind) {
+				case 'rest-complete':
+					await callbacks.onRestComplete(step.index);
+					break;
+				case 'exercise-finish':
+					await callbacks.onExerciseFinish(step.index);
+					break;
+				case 'interval-advance':
+					await callbacks.onIntervalAdvance(step.slot);
+					break;
+				case 'interval-end':
+					await callbacks.onIntervalEnd();
+					break;
+			}
+		} catch (error) {
+			console.error('[Workout Log] Error advancing workout:', error);
+		}
+	}
+
+	/**
+	 * Act on the current exercise or rest of a running workout, from outside its note
+	 */
+	async runWorkoutAction(workoutId: string, action: WorkoutAction): Promise<void> {
+		const controls = await this.getWorkoutControls(workoutId);
+		if (!controls) {
+			new Notice('Workout block not found');
+			return;
+		}
+
+		const { callbacks } = controls;
+		const index = this.timerManager.getActiveExerciseIndex(workoutId);
+		switch (action) {
+			case 'finish-exercise':
+				await callbacks.onExerciseFinish(index);
+				break;
+			case 'add-set':
+				await callbacks.onExerciseAddSet(index);
+				break;
+			case 'skip-exercise':
+				await callbacks.onExerciseSkip(index);
+				break;
+			case 'skip-rest':
+				await callbacks.onRestSkip(index);
+				break;
+			case 'toggle-pause':
+				if (this.timerManager.isWorkoutPaused(workoutId)) {
+					callbacks.onResumeWorkout();
+				} else {
+					callbacks.onPauseWorkout();
+				}
+				break;
+			case 'finish-workout':
+				await callbacks.onFinishWorkout();
+				break;
+		}
+	}
+
+	/**
+	 * Workout the control commands act on: the block under the cursor if it's running,
+	 * otherwise the workout started first
+	 */
+	private getCommandWorkoutId(): string | null {
+		const running = this.timerManager.getRunningWorkoutIds();
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const block = view ? this.getWorkoutBlockAtCursor(view.editor) : null;
+		if (view?.file && block) {
+			const parsed = parseWorkout(this.getBlockSource(view.editor, block));
+			const workoutId = `${view.file.path}:${this.getWorkoutHash(parsed)}`;
+			if (running.includes(workoutId)) return workoutId;
+		}
+		return running[0] ?? null;
+	}
+
+	/**
+	 * Start the planned workout block under the cursor, or the first planned one in the note
+	 */
+	// Whether a ```workout block in the note hasn't been started yet
+	private hasPlannedWorkout(editor: Editor): boolean {
+		const lines = editor.getValue().split('\n');
+		for (let i = 0; i < lines.length; i++) {
+			if (lines[i]?.trim() !== '```workout') continue;
+
+			const end = lines.findIndex((line, j) => j > i && line.trim() === '```');
+			if (end === -1) return false;
+			if (parseWorkout(lines.slice(i + 1, end).join('\n')).metadata.state === 'planned') return true;
+			i = end;
+		}
+		return false;
+	}
+
+	private async startWorkoutInNote(view: MarkdownView): Promise<void> {
+		const file = view.file;
+		if (!file) return;
+
+		const cursorBlock = this.getWorkoutBlockAtCursor(view.editor);
+		const cursorSource = cursorBlock ? this.getBlockSource(view.editor, cursorBlock) : null;
+		const block = cursorBlock && cursorSource !== null && parseWorkout(cursorSource).metadata.state === 'planned'
+			? { sectionInfo: cursorBlock, source: cursorSource }
+			: await this.fileUpdater?.findWorkoutBlock(file.path, source => parseWorkout(source).metadata.state === 'planned');
+		if (!block) {
+			new Notice('No planned workout in this note');
+			return;
+		}
+
+		const parsed = parseWorkout(block.source);
+		const workoutId = `${file.path}:${this.getWorkoutHash(parsed)}`;
+		await this.createCallbacks(file.path, () => block.sectionInfo, parsed, workoutId).onStartWorkout();
+	}
+
+	/**
+	 * Focus the note of a workout, in the tab it's already open in if any
+	 */
+	async openWorkoutNote(workoutId: string): Promise<void> {
+		const path = this.getWorkoutPath(workoutId);
+		const leaf = this.app.workspace.getLeavesOfType('markdown')
+			.find(leaf => leaf.view instanceof MarkdownView && leaf.view.file?.path === path);
+		if (leaf) {
+			this.app.workspace.setActiveLeaf(leaf, { focus: true });
+			return;
+		}
+		await this.app.workspace.openLinkText(path, '', false);
 	}
 
 	private 	processWorkoutBlock(
@@ -72,6 +720,18 @@ export default class WorkoutLogPlugin extends Plugin {
 			console.warn('[Workout Log] sectionInfo is null for', ctx.sourcePath, '- file updates will not work until you switch to edit mode and back');
 		}
 
+		// Rehydrate a timer persisted before a reload or crash
+		const persistedTimer = this.persistedTimers[workoutId];
+		if (persistedTimer && !this.timerManager.isTimerRunning(workoutId)) {
+			if (parsed.metadata.state === 'started') {
+				this.timerManager.restoreTimer(persistedTimer);
+			} else {
+				// Block was finished or reverted elsewhere, drop the stale snapshot
+				delete this.persistedTimers[workoutId];
+				this.savePluginData();
+			}
+		}
+
 		// Sync timer state with parsed state (handles undo/external changes)
 		const isTimerRunning = this.timerManager.isTimerRunning(workoutId);
 		if (isTimerRunning && parsed.metadata.state !== 'started') {
@@ -87,39 +747,78 @@ export default class WorkoutLogPlugin extends Plugin {
 			}
 		}
 
-		const callbacks = this.createCallbacks(ctx, sectionInfo, parsed, workoutId, el);
+		if (parsed.metadata.state === 'started') {
+			this.knownWorkouts.set(workoutId, parsed);
+		}
+
+		const callbacks = this.createCallbacks(
+			ctx.sourcePath,
+			() => ctx.getSectionInfo(el) as SectionInfo | null,
+			parsed,
+			workoutId
+		);
+		if (parsed.metadata.state === 'started') {
+			this.liveCallbacks.set(workoutId, callbacks);
+		} else {
+			this.liveCallbacks.delete(workoutId);
+		}
 
 		renderWorkout({
 			el,
 			parsed,
 			callbacks,
 			workoutId,
-			timerManager: this.timerManager
+			timerManager: this.timerManager,
+			history: this.history,
+			settings: this.settings
 		});
 	}
 
+	private processStatsBlock(source: string, el: HTMLElement): void {
+		const history = this.history;
+		if (!history) return;
+
+		const options = parseStatsOptions(source);
+		renderStats(el, options, history, this.settings.weightUnit, this.settings.e1rmFormula);
+
+		// Re-render when logs change, until the block is removed from the DOM
+		const unsubscribe = history.onChange(() => {
+			if (!el.isConnected) {
+				unsubscribe();
+				return;
+			}
+			renderStats(el, options, history, this.settings.weightUnit, this.settings.e1rmFormula);
+		});
+	}
+
+	/**
+	 * Callbacks for one workout block
+	 * @param getSectionInfo Lines of the rendered block, or null when the block isn't rendered
+	 * (it's then looked up in the file by its workout ID)
+	 */
 	private createCallbacks(
-		ctx: MarkdownPostProcessorContext,
-		sectionInfo: SectionInfo | null,
+		sourcePath: string,
+		getSectionInfo: () => SectionInfo | null,
 		parsed: ParsedWorkout,
-		workoutId: string,
-		el: HTMLElement
+		workoutId: string
 	): WorkoutCallbacks {
 		// Keep a reference to current parsed state
 		let currentParsed = parsed;
-		
-		// Function to get fresh sectionInfo before each file update
-		const getSectionInfo = (): SectionInfo | null => {
-			return ctx.getSectionInfo(el) as SectionInfo | null;
-		};
 		let hasPendingChanges = false;
 
+		const resolveSectionInfo = async (): Promise<SectionInfo | null> => {
+			return getSectionInfo() ?? (await this.findWorkoutBlock(workoutId))?.sectionInfo ?? null;
+		};
+
 		const updateFile = async (newParsed: ParsedWorkout): Promise<void> => {
 			currentParsed = newParsed;
 			hasPendingChanges = false;
+			if (newParsed.metadata.state === 'started') {
+				this.knownWorkouts.set(workoutId, newParsed);
+			}
 			
 			// Get fresh sectionInfo before each update to avoid stale line numbers
-			const freshSectionInfo = getSectionInfo();
+			const freshSectionInfo = await resolveSectionInfo();
 			
 			// Check if sectionInfo is available
 			if (!freshSectionInfo) {
@@ -130,7 +829,7 @@ export default class WorkoutLogPlugin extends Plugin {
 			const newContent = serializeWorkout(newParsed);
 			// Pass title for validation to prevent cross-block contamination
 			const expectedTitle = currentParsed.metadata.title;
-			const success = await this.fileUpdater?.updateCodeBlock(ctx.sourcePath, freshSectionInfo, newContent, expectedTitle);
+			const success = await this.fileUpdater?.updateCodeBlock(sourcePath, freshSectionInfo, newContent, expectedTitle);
 			
 			if (!success) {
 				console.error('[Workout Log] File update failed');
@@ -144,21 +843,84 @@ export default class WorkoutLogPlugin extends Plugin {
 			}
 		};
 
+		// Wall-clock duration, plus the active duration and pause intervals if the workout was paused
+		const recordWorkoutDuration = (): void => {
+			const timerState = this.timerManager.getTimerState(workoutId);
+			if (!timerState) return;
+
+			currentParsed.metadata.duration = formatDurationHuman(timerState.wallElapsed);
+			const pauses = this.timerManager.getPauses(workoutId);
+			if (pauses.length > 0) {
+				currentParsed.metadata.activeDuration = formatDurationHuman(timerState.workoutElapsed);
+				currentParsed.metadata.pauses = pauses
+					.map(pause => `${this.formatClockTime(new Date(pause.start))}-${this.formatClockTime(new Date(pause.end ?? pause.start))}`)
+					.join(', ');
+			}
+		};
+
+		const finishWorkout = async (): Promise<void> => {
+			// Calculate duration
+			recordWorkoutDuration();
+
+			currentParsed.metadata.state = 'completed';
+
+			// Lock all fields
+			currentParsed = lockAllFields(currentParsed);
+
+			// Log the completed workout
+			await this.logCompletedWorkout(currentParsed);
+
+			// Reset workout to planned state
+			currentParsed = this.resetWorkout(currentParsed);
+
+			await updateFile(currentParsed);
+
+			// Stop timer
+			this.timerManager.stopWorkoutTimer(workoutId);
+		};
+
+		// Mark the line the interval clock was on as done (EMOM/Tabata lines are worked for their whole interval)
+		const completeIntervalLine = (): void => {
+			const activeIndex = this.timerManager.getActiveExerciseIndex(workoutId);
+			if (currentParsed.exercises[activeIndex]?.state !== 'inProgress') return;
+
+			const timerState = this.timerManager.getTimerState(workoutId);
+			if (timerState) {
+				currentParsed = setRecordedDuration(currentParsed, activeIndex, formatDurationHuman(timerState.exerciseElapsed));
+			}
+			currentParsed = updateExerciseState(currentParsed, activeIndex, 'completed');
+		};
+
+		// Write the rest that was actually taken next to the set, before the rest ends
+		const recordRestTaken = (exerciseIndex: number): void => {
+			if (!this.settings.recordRest) return;
+			const restElapsed = this.timerManager.getTimerState(workoutId)?.restElapsed;
+			if (restElapsed !== undefined) {
+				currentParsed = setRestTaken(currentParsed, exerciseIndex, restElapsed);
+			}
+		};
+
 		return {
 			onStartWorkout: async (): Promise<void> => {
 				// Check if we have valid section info
-				if (!sectionInfo) {
+				if (!(await resolveSectionInfo())) {
 					console.error('[Workout Log] Cannot start workout - sectionInfo is null. This usually happens on initial load. Try switching to edit mode and back.');
 					return;
 				}
 				
 				hasPendingChanges = false; // Will be saved by updateFile below
+				this.cues?.clear(workoutId);
 				// Update state to started
 				currentParsed.metadata.state = 'started';
 				currentParsed.metadata.startDate = this.formatStartDate(new Date());
 
+				// Interval blocks get their rounds, other blocks ramp up to exercises marked "Warmup: auto"
+				currentParsed = currentParsed.metadata.mode
+					? addIntervalRounds(currentParsed)
+					: addWarmupSets(currentParsed, this.settings, this.history);
+
 				// Activate first pending exercise
-				const firstPending = currentParsed.exercises.findIndex(e => e.state === 'pending');
+				const firstPending = findNextPending(currentParsed.exercises, -1);
 				if (firstPending >= 0) {
 					const exercise = currentParsed.exercises[firstPending];
 					if (exercise) {
@@ -168,36 +930,12 @@ export default class WorkoutLogPlugin extends Plugin {
 
 				// Start timer BEFORE updateFile to avoid race condition
 				// This ensures timer is running when Obsidian re-renders after file update
-				this.timerManager.startWorkoutTimer(workoutId, firstPending >= 0 ? firstPending : 0);
+				this.timerManager.startWorkoutTimer(workoutId, firstPending >= 0 ? firstPending : 0, getIntervalTimer(currentParsed));
 
 				await updateFile(currentParsed);
 			},
 
-			onFinishWorkout: async (): Promise<void> => {
-				// Calculate duration
-				const timerState = this.timerManager.getTimerState(workoutId);
-				if (timerState) {
-					currentParsed.metadata.duration = formatDurationHuman(timerState.workoutElapsed);
-				}
-
-				currentParsed.metadata.state = 'completed';
-
-				// Lock all fields
-				currentParsed = lockAllFields(currentParsed);
-
-				// Log the completed workout
-				if (this.logger) {
-					await this.logger.logWorkout(currentParsed);
-				}
-
-				// Reset workout to planned state
-				currentParsed = this.resetWorkout(currentParsed);
-
-				await updateFile(currentParsed);
-
-				// Stop timer
-				this.timerManager.stopWorkoutTimer(workoutId);
-			},
+			onFinishWorkout: finishWorkout,
 
 		onExerciseFinish: async (exerciseIndex: number): Promise<void> => {
 			hasPendingChanges = false; // Will be saved by updateFile below
@@ -214,13 +952,14 @@ export default class WorkoutLogPlugin extends Plugin {
 				);
 			}
 
-			// Check if this exercise has a rest period
-			const restDuration = exercise.restAfter ?? currentParsed.metadata.restDuration;
-			const hasMoreExercises = currentParsed.exercises.some(
-				(e, i) => i > exerciseIndex && e.state === 'pending'
-			);
+			// Check if this exercise has a rest period (grouped exercises only rest at the end of a round)
+			// Interval blocks rest on their clock instead
+			const mode = currentParsed.metadata.mode;
+			const restDuration = mode ? undefined : exercise.restAfter ?? currentParsed.metadata.restDuration;
+			const nextExercise = findNextPending(currentParsed.exercises, exerciseIndex);
+			const hasMoreExercises = nextExercise >= 0;
 
-			if (restDuration && hasMoreExercises) {
+			if (restDuration && hasMoreExercises && isRestPoint(currentParsed.exercises, exerciseIndex, nextExercise)) {
 				// Start rest timer (exercise stays inProgress during rest)
 				this.timerManager.startRest(workoutId, restDuration);
 
@@ -230,12 +969,18 @@ export default class WorkoutLogPlugin extends Plugin {
 				// No rest needed, mark as completed immediately
 				currentParsed = updateExerciseState(currentParsed, exerciseIndex, 'completed');
 
+				// An AMRAP goes on with another round after the last line
+				if (mode === 'amrap' && findNextPending(currentParsed.exercises, exerciseIndex) < 0) {
+					currentParsed = addIntervalRound(currentParsed);
+				}
+
 				// Find next pending exercise
-				const nextPending = currentParsed.exercises.findIndex(
-					(e, i) => i > exerciseIndex && e.state === 'pending'
-				);
+				const nextPending = findNextPending(currentParsed.exercises, exerciseIndex);
 
-				if (nextPending >= 0) {
+				if (nextPending >= 0 && isClockDriven(mode)) {
+					// The clock activates the next line when its interval starts
+					await updateFile(currentParsed);
+				} else if (nextPending >= 0) {
 					// Activate next exercise
 					currentParsed = updateExerciseState(currentParsed, nextPending, 'inProgress');
 
@@ -246,16 +991,11 @@ export default class WorkoutLogPlugin extends Plugin {
 				} else {
 					// No more exercises, complete workout
 					currentParsed.metadata.state = 'completed';
-					const finalState = this.timerManager.getTimerState(workoutId);
-					if (finalState) {
-						currentParsed.metadata.duration = formatDurationHuman(finalState.workoutElapsed);
-					}
+					recordWorkoutDuration();
 					currentParsed = lockAllFields(currentParsed);
 					
 					// Log the completed workout
-					if (this.logger) {
-						await this.logger.logWorkout(currentParsed);
-					}
+					await this.logCompletedWorkout(currentParsed);
 					
 					// Reset workout to planned state
 					currentParsed = this.resetWorkout(currentParsed);
@@ -314,12 +1054,19 @@ export default class WorkoutLogPlugin extends Plugin {
 
 				currentParsed = updateExerciseState(currentParsed, exerciseIndex, 'skipped');
 
+				// An AMRAP goes on with another round after the last line
+				const mode = currentParsed.metadata.mode;
+				if (mode === 'amrap' && findNextPending(currentParsed.exercises, exerciseIndex) < 0) {
+					currentParsed = addIntervalRound(currentParsed);
+				}
+
 				// Find next pending
-				const nextPending = currentParsed.exercises.findIndex(
-					(e, i) => i > exerciseIndex && e.state === 'pending'
-				);
+				const nextPending = findNextPending(currentParsed.exercises, exerciseIndex);
 
-				if (nextPending >= 0) {
+				if (nextPending >= 0 && isClockDriven(mode)) {
+					// The clock activates the next line when its interval starts
+					await updateFile(currentParsed);
+				} else if (nextPending >= 0) {
 					currentParsed = updateExerciseState(currentParsed, nextPending, 'inProgress');
 
 					// Advance timer BEFORE file update so re-render sees reset timer
@@ -329,16 +1076,11 @@ export default class WorkoutLogPlugin extends Plugin {
 				} else {
 					// No more exercises, complete workout
 					currentParsed.metadata.state = 'completed';
-					const finalState = this.timerManager.getTimerState(workoutId);
-					if (finalState) {
-						currentParsed.metadata.duration = formatDurationHuman(finalState.workoutElapsed);
-					}
+					recordWorkoutDuration();
 					currentParsed = lockAllFields(currentParsed);
 
 					// Log the completed workout
-					if (this.logger) {
-						await this.logger.logWorkout(currentParsed);
-					}
+					await this.logCompletedWorkout(currentParsed);
 					
 					// Reset workout to planned state
 					currentParsed = this.resetWorkout(currentParsed);
@@ -357,13 +1099,19 @@ export default class WorkoutLogPlugin extends Plugin {
 				if (param?.value === newValue) {
 					return; // No change, skip update
 				}
-				currentParsed = updateParamValue(currentParsed, exerciseIndex, paramKey, newValue);
+				// During a workout the planned value is kept as the target to compare against
+				const recordTarget = currentParsed.metadata.state === 'started';
+				currentParsed = updateParamValue(currentParsed, exerciseIndex, paramKey, newValue, recordTarget);
 				hasPendingChanges = true;
 				// Don't save to file yet - wait for flush
 			},
 
 			onFlushChanges: flushChanges,
 
+			onPreviewProgression: (): void => {
+				this.showProgressionPreview(currentParsed);
+			},
+
 			onPauseExercise: (): void => {
 				this.timerManager.pauseExercise(workoutId);
 			},
@@ -372,8 +1120,25 @@ export default class WorkoutLogPlugin extends Plugin {
 				this.timerManager.resumeExercise(workoutId);
 			},
 
+			onPauseWorkout: (): void => {
+				this.timerManager.pauseWorkout(workoutId);
+			},
+
+			onResumeWorkout: (): void => {
+				this.timerManager.resumeWorkout(workoutId);
+			},
+
+			onAdjustRest: (seconds: number): void => {
+				this.timerManager.adjustRest(workoutId, seconds);
+			},
+
+			onExtendRest: (): void => {
+				this.timerManager.extendRest(workoutId);
+			},
+
 			onRestComplete: async (exerciseIndex: number): Promise<void> => {
 				hasPendingChanges = false; // Will be saved by updateFile below
+				recordRestTaken(exerciseIndex);
 
 				// End rest state
 				this.timerManager.endRest(workoutId);
@@ -382,9 +1147,7 @@ export default class WorkoutLogPlugin extends Plugin {
 				currentParsed = updateExerciseState(currentParsed, exerciseIndex, 'completed');
 
 				// Find next pending exercise
-				const nextPending = currentParsed.exercises.findIndex(
-					(e, i) => i > exerciseIndex && e.state === 'pending'
-				);
+				const nextPending = findNextPending(currentParsed.exercises, exerciseIndex);
 
 				if (nextPending >= 0) {
 					// Activate next exercise
@@ -397,16 +1160,11 @@ export default class WorkoutLogPlugin extends Plugin {
 				} else {
 					// No more exercises, complete workout
 					currentParsed.metadata.state = 'completed';
-					const finalState = this.timerManager.getTimerState(workoutId);
-					if (finalState) {
-						currentParsed.metadata.duration = formatDurationHuman(finalState.workoutElapsed);
-					}
+					recordWorkoutDuration();
 					currentParsed = lockAllFields(currentParsed);
 					
 					// Log the completed workout
-					if (this.logger) {
-						await this.logger.logWorkout(currentParsed);
-					}
+					await this.logCompletedWorkout(currentParsed);
 					
 					// Reset workout to planned state
 					currentParsed = this.resetWorkout(currentParsed);
@@ -418,6 +1176,7 @@ export default class WorkoutLogPlugin extends Plugin {
 
 			onRestSkip: async (exerciseIndex: number): Promise<void> => {
 				hasPendingChanges = false; // Will be saved by updateFile below
+				recordRestTaken(exerciseIndex);
 
 				// End rest state
 				this.timerManager.endRest(workoutId);
@@ -426,9 +1185,7 @@ export default class WorkoutLogPlugin extends Plugin {
 				currentParsed = updateExerciseState(currentParsed, exerciseIndex, 'completed');
 
 				// Find next pending exercise
-				const nextPending = currentParsed.exercises.findIndex(
-					(e, i) => i > exerciseIndex && e.state === 'pending'
-				);
+				const nextPending = findNextPending(currentParsed.exercises, exerciseIndex);
 
 				if (nextPending >= 0) {
 					// Activate next exercise
@@ -441,16 +1198,11 @@ export default class WorkoutLogPlugin extends Plugin {
 				} else {
 					// No more exercises, complete workout
 					currentParsed.metadata.state = 'completed';
-					const finalState = this.timerManager.getTimerState(workoutId);
-					if (finalState) {
-						currentParsed.metadata.duration = formatDurationHuman(finalState.workoutElapsed);
-					}
+					recordWorkoutDuration();
 					currentParsed = lockAllFields(currentParsed);
 					
 					// Log the completed workout
-					if (this.logger) {
-						await this.logger.logWorkout(currentParsed);
-					}
+					await this.logCompletedWorkout(currentParsed);
 					
 					// Reset workout to planned state
 					currentParsed = this.resetWorkout(currentParsed);
@@ -472,25 +1224,80 @@ export default class WorkoutLogPlugin extends Plugin {
 				}
 				
 				await this.fileUpdater?.updateCodeBlock(
-					ctx.sourcePath,
+					sourcePath,
 					freshSectionInfo,
 					newContent,
 					sampleWorkout.metadata.title
 				);
 			},
 			
+			onIntervalAdvance: async (slot: number): Promise<void> => {
+				hasPendingChanges = false; // Will be saved by updateFile below
+				completeIntervalLine();
+
+				// Lines of intervals that passed while the note was closed stay pending
+				if (currentParsed.exercises[slot]?.state === 'pending') {
+					currentParsed = updateExerciseState(currentParsed, slot, 'inProgress');
+				}
+
+				// Advance timer BEFORE file update so re-render sees reset timer
+				this.timerManager.advanceExercise(workoutId, slot);
+
+				await updateFile(currentParsed);
+			},
+
+			onIntervalEnd: async (): Promise<void> => {
+				hasPendingChanges = false; // Will be saved by finishWorkout below
+				// A line cut short by an AMRAP or for time cap is left as it is
+				if (isClockDriven(currentParsed.metadata.mode)) {
+					completeIntervalLine();
+				}
+				await finishWorkout();
+			},
+
+			onOpenSession: (): void => {
+				this.activateSessionView(workoutId);
+			},
+
 			getSectionInfo
 		};
 	}
 
 	/**
-	 * Reset workout to planned state after completion, applying progression and adding sets as needed
+	 * Log a completed workout, annotated with any personal records it set
+	 */
+	private async logCompletedWorkout(workout: ParsedWorkout): Promise<void> {
+		if (!this.logger) return;
+
+		// Interval blocks record the rounds and reps (or time) they achieved
+		const result = getIntervalResult(workout);
+		if (result) {
+			workout = { ...workout, metadata: { ...workout.metadata, result } };
+		}
+
+		// Log the loads that were lifted, not the percentages they were planned as
+		const lifted = resolveWorkoutLoads(workout, this.settings, this.history);
+		const records = this.history ? detectRecords(lifted, this.history, this.settings.weightUnit, this.settings.e1rmFormula) : [];
+		await this.logger.logWorkout(lifted, records);
+	}
+
+	/**
+	 * Reset workout to planned state after completion, applying progression and adding sets as needed.
+	 * Passing a report makes it a dry run: decisions are collected there and no notices are shown.
 	 */
-	private resetWorkout(workout: ParsedWorkout): ParsedWorkout {
+	private resetWorkout(workout: ParsedWorkout, report?: ExerciseProgressionReport[]): ParsedWorkout {
+		const finishedStartDate = workout.metadata.startDate;
+
+		// Warm-ups and interval rounds are generated again on the next start and never progress
+		workout = removeIntervalRounds(removeWarmupSets(workout));
+
 		// Reset metadata
 		workout.metadata.state = 'planned';
 		workout.metadata.startDate = undefined;
 		workout.metadata.duration = undefined;
+		workout.metadata.activeDuration = undefined;
+		workout.metadata.pauses = undefined;
+		workout.metadata.result = undefined;
 
 		// Track which exercise names have any skipped sets
 		const skippedExercises = new Set<string>();
@@ -500,25 +1307,85 @@ export default class WorkoutLogPlugin extends Plugin {
 			}
 		}
 
+		// Extra formula variables per exercise name: effort of the last rated set (lastRpe/lastRir),
+		// best e1RM of this session (e1rm) and of every logged session including this one (bestE1rm)
+		const formulaContext = new Map<string, Record<string, number>>();
+		const { e1rmFormula, weightUnit } = this.settings;
+		for (const exercise of resolveWorkoutLoads(workout, this.settings, this.history).exercises) {
+			if (exercise.state !== 'completed') continue;
+			const context = formulaContext.get(exercise.name) ?? {};
+			const rpe = getEffortValue(exercise, 'rpe');
+			const rir = getEffortValue(exercise, 'rir');
+			if (rpe !== undefined) context.lastRpe = rpe;
+			if (rir !== undefined) context.lastRir = rir;
+
+			const unit = exercise.params.find(p => p.key.toLowerCase() === 'weight')?.weightUnit ?? weightUnit;
+			const e1rm = estimateSetOneRepMax(exercise.params, e1rmFormula, unit);
+			if (e1rm !== null && e1rm > (context.e1rm ?? 0)) {
+				const logged = this.history ? getEstimatedOneRepMax(this.history, exercise.name, unit, e1rmFormula) : null;
+				context.e1rm = e1rm;
+				context.bestE1rm = Math.max(e1rm, Math.round((logged ?? 0) * 10) / 10);
+			}
+			formulaContext.set(exercise.name, context);
+		}
+
+		// Progress only when every set hit its planned values, hold or deload otherwise
+		const outcomes = new Map<string, ProgressionOutcome>();
+		const misses = new Map<string, number>();
+		for (const exercise of workout.exercises) {
+			if (outcomes.has(exercise.name)) continue;
+			const sets = workout.exercises.filter(e => e.name === exercise.name);
+			const previousMisses = countPreviousMisses(this.history, exercise.name, finishedStartDate);
+			const outcome = getProgressionOutcome(sets, previousMisses, this.settings.deloadAfterMisses);
+			outcomes.set(exercise.name, outcome);
+			misses.set(exercise.name, outcome === 'progress' ? 0 : previousMisses + 1);
+
+			if (outcome === 'deload' && !report) {
+				new Notice(`${exercise.name}: ${previousMisses + 1} missed sessions in a row, deloading by ${this.settings.deloadPercent}%`);
+			}
+		}
+
 		// Track which exercise names need new sets added (stores last occurrence index)
 		const setAdditionNeeded = new Map<string, number>();
 
 		// Apply progression to all exercises and track which need new sets
 		workout.exercises = workout.exercises.map((exercise, index) => {
-			const filteredParams = this.removeRecordedDurations(exercise);
-			
+			// Next session starts from the plan, not from what was achieved
+			const filteredParams = getPlannedParams(this.removeRecordedDurations(exercise));
+			const outcome = outcomes.get(exercise.name) ?? 'progress';
+
 			// Skip progression if any set of this exercise was skipped
-			const shouldApplyProgression = !skippedExercises.has(exercise.name);
+			const shouldApplyProgression = !skippedExercises.has(exercise.name) && outcome === 'progress';
 			const progressionResult = shouldApplyProgression 
-				? applyProgression(filteredParams)
-				: { params: filteredParams, shouldAddSet: false };
+				? applyProgression(filteredParams, formulaContext.get(exercise.name), exercise.progression)
+				: {
+					params: outcome === 'deload'
+						? deloadParams(filteredParams, this.settings.deloadPercent, this.settings.weightUnit)
+						: filteredParams,
+					shouldAddSet: false,
+					notes: []
+				};
+
+			report?.push({
+				index,
+				name: exercise.name,
+				outcome,
+				skipped: skippedExercises.has(exercise.name),
+				misses: misses.get(exercise.name) ?? 0,
+				notes: progressionResult.notes,
+				addsSet: progressionResult.shouldAddSet
+			});
 			
 			const resetExercise = {
 				...exercise,
 				state: 'pending' as const,
 				recordedDuration: undefined,
+				restTaken: undefined,
 				params: progressionResult.params.map(param => ({
 					...param,
+					// Ratings belong to the session they were given in, the next one is rated afresh
+					value: param.effort ? '' : param.value,
+					targetValue: param.effort ? undefined : param.targetValue,
 					locked: false,
 					editable: param.editable || (param.key.toLowerCase() === 'duration' && exercise.targetDuration !== undefined)
 				}))
@@ -553,7 +1420,7 @@ export default class WorkoutLogPlugin extends Plugin {
 	}
 
 	/**
-	 * Add one new set per exercise and reset reps/weight on all existing sets
+	 * Add one new set per exercise and reset the progression params on all existing sets
 	 */
 	private addNewSetsAndReset(workout: ParsedWorkout, setAdditionMap: Map<string, number>): ParsedWorkout {
 		// Add new sets (process in reverse order to avoid index shifting issues)
@@ -580,13 +1447,13 @@ export default class WorkoutLogPlugin extends Plugin {
 			}
 		}
 
-		// Reset reps and weight on ALL sets of exercises that triggered set addition
+		// Reset primary/secondary params on ALL sets of exercises that triggered set addition
 		const exerciseNames = new Set(setAdditionMap.keys());
 		workout.exercises = workout.exercises.map(exercise => {
 			if (exerciseNames.has(exercise.name)) {
 				return {
 					...exercise,
-					params: exercise.params.map(param => this.resetParamForNewSet(param))
+					params: resetParamsForNewSet(exercise.params, exercise.progression)
 				};
 			}
 			return exercise;
@@ -595,41 +1462,17 @@ export default class WorkoutLogPlugin extends Plugin {
 		return workout;
 	}
 
-	/**
-	 * Reset a parameter value when a new set is added
-	 */
-	private resetParamForNewSet(param: ExerciseParam): ExerciseParam {
-		const key = param.key.toLowerCase();
-		
-		// Reset reps to initial
-		if (key === 'reps' && param.initialValue !== undefined && param.maxValue !== undefined) {
-			return { ...param, value: param.initialValue };
-		}
-		
-		// Reset weight: wrap to initial if defined, otherwise cap at max
-		if (key === 'weight') {
-			if (param.initialValue !== undefined && param.initialValue !== '') {
-				return { ...param, value: param.initialValue };
-			}
-			if (param.maxValue !== undefined) {
-				const currentVal = parseFloat(param.value);
-				const maxVal = parseFloat(param.maxValue);
-				if (!isNaN(currentVal) && !isNaN(maxVal) && currentVal > maxVal) {
-					return { ...param, value: maxVal.toString() };
-				}
-			}
-		}
-		
-		return param;
-	}
-
 	private formatStartDate(date: Date): string {
 		const year = date.getFullYear();
 		const month = String(date.getMonth() + 1).padStart(2, '0');
 		const day = String(date.getDate()).padStart(2, '0');
+		return `${year}-${month}-${day} ${this.formatClockTime(date)}`;
+	}
+
+	private formatClockTime(date: Date): string {
 		const hours = String(date.getHours()).padStart(2, '0');
 		const minutes = String(date.getMinutes()).padStart(2, '0');
-		return `${year}-${month}-${day} ${hours}:${minutes}`;
+		return `${hours}:${minutes}`;
 	}
 
 	/**
@@ -637,9 +1480,10 @@ export default class WorkoutLogPlugin extends Plugin {
 	 * This ensures the workout ID doesn't change when metadata is added
 	 */
 	private getWorkoutHash(parsed: ParsedWorkout): string {
-		// Use title + exercise names as a stable identifier
-		const identifier = parsed.metadata.title + ':' + 
-			parsed.exercises.map(e => e.name).join(',');
+		// Use title + distinct exercise names as a stable identifier, so added sets keep the ID
+		// Warm-up rows and later interval rounds are left out since they're inserted when the workout starts
+		const names = parsed.exercises.filter(e => !isWarmupSet(e) && (e.round ?? 1) === 1).map(e => e.name);
+		const identifier = parsed.metadata.title + ':' + Array.from(new Set(names)).join(',');
 		
 		// Simple hash function
 		let hash = 0;
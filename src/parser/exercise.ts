@@ -1,5 +1,6 @@
-import { Exercise, ExerciseState, ExerciseParam } from '../types';
+import { Exercise, ExerciseState, ExerciseParam, ProgressionRoles, RecordType, WeightUnit } from '../types';
 import { parseProgressionValue, formatProgressionValue } from '../progression';
+import { getEffortScale, validateEffortValue } from '../effort';
 
 // Checkbox patterns: [ ] pending, [\] inProgress, [x] completed, [-] skipped
 const EXERCISE_PATTERN = /^-\s*\[(.)\]\s*(.+)$/;
@@ -11,6 +12,19 @@ const STATE_MAP: Record<string, ExerciseState> = {
 	'-': 'skipped'
 };
 
+const RECORD_TYPES: RecordType[] = ['weight', 'reps', 'e1rm', 'duration', 'volume'];
+
+const WEIGHT_UNIT_ALIASES: Record<string, WeightUnit> = {
+	kg: 'kg',
+	kgs: 'kg',
+	kilo: 'kg',
+	kilos: 'kg',
+	lb: 'lb',
+	lbs: 'lb',
+	pound: 'lb',
+	pounds: 'lb'
+};
+
 const STATE_CHAR_MAP: Record<ExerciseState, string> = {
 	'pending': ' ',
 	'inProgress': '\\',
@@ -40,6 +54,12 @@ export function parseExercise(line: string, lineIndex: number): Exercise | null
 	let targetDuration: number | undefined;
 	let recordedDuration: string | undefined;
 	let restAfter: number | undefined;
+	let restTaken: number | undefined;
+	let group: string | undefined;
+	let progression: ProgressionRoles | undefined;
+	let warmup: string | undefined;
+	let round: number | undefined;
+	let records: RecordType[] | undefined;
 
 	for (const paramStr of paramStrings) {
 		const param = parseParam(paramStr);
@@ -50,6 +70,39 @@ export function parseExercise(line: string, lineIndex: number): Exercise | null
 				if (param.editable && param.value) {
 					restAfter = parseDurationToSeconds(param.value);
 				}
+			} else if (param.key.toLowerCase() === 'rested') {
+				// Rest actually taken, recorded when the rest ends, e.g. "Rested: 2m 10s"
+				const seconds = parseDurationToSeconds(param.value + (param.unit ? ` ${param.unit}` : ''));
+				if (seconds > 0) {
+					restTaken = seconds;
+				}
+			} else if (param.key.toLowerCase() === 'pr') {
+				// Personal records annotated by the logger, e.g. "PR: weight,e1rm"
+				const types = `${param.value} ${param.unit ?? ''}`
+					.split(/[\s,]+/)
+					.filter((t): t is RecordType => RECORD_TYPES.includes(t as RecordType));
+				if (types.length > 0) {
+					records = types;
+				}
+			} else if (param.key.toLowerCase() === 'progression') {
+				// Progression roles, e.g. "Progression: Reps > Weight" or "Progression: Distance > Pace, Incline"
+				progression = parseProgressionRoles([param.value, param.unit].filter(Boolean).join(' '));
+			} else if (param.key.toLowerCase() === 'warmup') {
+				// Warm-up scheme to generate on start ("Warmup: auto"), or a generated warm-up row ("Warmup: set")
+				if (param.value) {
+					warmup = param.value.toLowerCase();
+				}
+			} else if (param.key.toLowerCase() === 'round') {
+				// Round of an interval block, e.g. "Round: 3"
+				const value = parseInt(param.value, 10);
+				if (value > 0) {
+					round = value;
+				}
+			} else if (param.key.toLowerCase() === 'group') {
+				// Group label for supersets/circuits (not a displayable param)
+				if (param.value) {
+					group = param.value;
+				}
 			} else {
 				// Add all non-Rest params to the params array
 				params.push(param);
@@ -75,11 +128,45 @@ export function parseExercise(line: string, lineIndex: number): Exercise | null
 		targetDuration,
 		recordedDuration,
 		restAfter,
+		restTaken,
+		group,
+		progression,
+		warmup,
+		round,
+		records,
 		lineIndex
 	};
 }
 
+function parseProgressionRoles(text: string): ProgressionRoles | undefined {
+	const [primary, secondary] = text.split('>').map(part => part.trim());
+	if (!primary) return undefined;
+
+	return {
+		primary,
+		secondary: (secondary ?? '').split(',').map(key => key.trim()).filter(key => key !== '')
+	};
+}
+
+export function formatProgressionRoles(roles: ProgressionRoles): string {
+	return roles.secondary.length > 0 ? `${roles.primary ?? ''} > ${roles.secondary.join(', ')}` : roles.primary ?? '';
+}
+
 function parseParam(paramStr: string): ExerciseParam | null {
+	const param = parseParamValue(paramStr);
+	if (!param) return null;
+
+	// RPE/RIR get a known scale and are validated against it
+	const effort = getEffortScale(param.key);
+	if (effort) {
+		param.effort = effort;
+		param.error = validateEffortValue(effort, param.value) ?? undefined;
+	}
+
+	return param;
+}
+
+function parseParamValue(paramStr: string): ExerciseParam | null {
 	// Handle simple format: Key: value or Key: [value] or Key: [value] unit
 	// Also handles progression: Key: [(formula)value] or Key: (formula)value
 	const colonIndex = paramStr.indexOf(':');
@@ -95,16 +182,18 @@ function parseParam(paramStr: string): ExerciseParam | null {
 		const afterBracket = (bracketMatch[2] ?? '').trim();
 		
 		// Parse progression formula, bounds, and value from bracket content
-		const { value, progressionFormula, initialValue, maxValue } = parseProgressionValue(bracketContent);
+		const { value, progressionFormula, initialValue, maxValue, targetValue } = parseProgressionValue(bracketContent);
 		
 		return {
 			key,
 			value,
 			editable: true,
 			unit: afterBracket || undefined,
+			weightUnit: parseWeightUnit(afterBracket),
 			progressionFormula,
 			initialValue,
-			maxValue
+			maxValue,
+			targetValue
 		};
 	}
 
@@ -114,19 +203,27 @@ function parseParam(paramStr: string): ExerciseParam | null {
 	const unit = parts.slice(1).join(' ') || undefined;
 	
 	// Parse progression formula, bounds, and value from non-bracketed value
-	const { value, progressionFormula, initialValue, maxValue } = parseProgressionValue(firstPart);
+	const { value, progressionFormula, initialValue, maxValue, targetValue } = parseProgressionValue(firstPart);
 
 	return {
 		key,
 		value,
 		editable: false,
 		unit,
+		weightUnit: parseWeightUnit(unit),
 		progressionFormula,
 		initialValue,
-		maxValue
+		maxValue,
+		targetValue
 	};
 }
 
+// Recognise a weight unit from the text after a value (kg, lb, lbs, ...)
+export function parseWeightUnit(unit: string | undefined): WeightUnit | undefined {
+	if (!unit) return undefined;
+	return WEIGHT_UNIT_ALIASES[unit.trim().toLowerCase()];
+}
+
 // Parse duration string like "60s", "1:30", "1m 30s" to seconds
 export function parseDurationToSeconds(durationStr: string): number {
 	const str = durationStr.trim();
@@ -199,7 +296,8 @@ export function serializeExercise(exercise: Exercise): string {
 			param.value, 
 			param.progressionFormula,
 			param.initialValue,
-			param.maxValue
+			param.maxValue,
+			param.targetValue
 		);
 		
 		if (param.editable) {
@@ -212,10 +310,40 @@ export function serializeExercise(exercise: Exercise): string {
 		}
 	}
 
+	// Append Group parameter if present
+	if (exercise.group) {
+		line += ` | Group: ${exercise.group}`;
+	}
+
+	// Append Progression parameter if present
+	if (exercise.progression) {
+		line += ` | Progression: ${formatProgressionRoles(exercise.progression)}`;
+	}
+
+	// Append Warmup parameter if present
+	if (exercise.warmup) {
+		line += ` | Warmup: ${exercise.warmup}`;
+	}
+
+	// Append Round parameter if present
+	if (exercise.round !== undefined) {
+		line += ` | Round: ${exercise.round}`;
+	}
+
 	// Append Rest parameter if present
 	if (exercise.restAfter !== undefined) {
 		line += ` | Rest: [${exercise.restAfter}s]`;
 	}
 
+	// Append the rest that was taken if recorded
+	if (exercise.restTaken !== undefined) {
+		line += ` | Rested: ${formatDurationHuman(exercise.restTaken)}`;
+	}
+
+	// Append personal records if present
+	if (exercise.records && exercise.records.length > 0) {
+		line += ` | PR: ${exercise.records.join(',')}`;
+	}
+
 	return line;
 }
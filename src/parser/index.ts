@@ -44,4 +44,4 @@ export function parseWorkout(source: string): ParsedWorkout {
 }
 
 export { parseMetadata, serializeMetadata } from './metadata';
-export { parseExercise, serializeExercise, formatDuration, formatDurationHuman, parseDurationToSeconds, getStateChar } from './exercise';
+export { parseExercise, serializeExercise, formatDuration, formatDurationHuman, parseDurationToSeconds, parseWeightUnit, getStateChar } from './exercise';
@@ -1,7 +1,13 @@
-import { WorkoutMetadata, WorkoutState } from '../types';
+import { IntervalMode, WorkoutMetadata, WorkoutState } from '../types';
 import { parseDurationToSeconds, formatDurationHuman } from './exercise';
 
 const VALID_STATES: WorkoutState[] = ['planned', 'started', 'completed'];
+const VALID_MODES: IntervalMode[] = ['emom', 'amrap', 'tabata', 'fortime'];
+
+function parsePositiveSeconds(value: string): number | undefined {
+	const seconds = value ? parseDurationToSeconds(value) : 0;
+	return seconds > 0 ? seconds : undefined;
+}
 
 export function parseMetadata(lines: string[]): WorkoutMetadata {
 	const metadata: WorkoutMetadata = {
@@ -30,12 +36,49 @@ export function parseMetadata(lines: string[]): WorkoutMetadata {
 			case 'duration':
 				if (value) metadata.duration = value;
 				break;
+			case 'activeduration':
+				if (value) metadata.activeDuration = value;
+				break;
+			case 'pauses':
+				if (value) metadata.pauses = value;
+				break;
+			case 'program':
+				if (value) metadata.program = value;
+				break;
 			case 'restduration':
 				if (value) {
 					const seconds = parseDurationToSeconds(value);
 					if (seconds > 0) metadata.restDuration = seconds;
 				}
 				break;
+			case 'mode': {
+				// "for time" and "for-time" are accepted too
+				const mode = value.toLowerCase().replace(/[\s-]/g, '');
+				if (VALID_MODES.includes(mode as IntervalMode)) {
+					metadata.mode = mode as IntervalMode;
+				}
+				break;
+			}
+			case 'interval':
+				metadata.interval = parsePositiveSeconds(value);
+				break;
+			case 'work':
+				metadata.work = parsePositiveSeconds(value);
+				break;
+			case 'rest':
+				metadata.rest = parsePositiveSeconds(value);
+				break;
+			case 'cap':
+				metadata.cap = parsePositiveSeconds(value);
+				break;
+			case 'rounds': {
+				const rounds = parseInt(value, 10);
+				if (rounds > 0) metadata.rounds = rounds;
+				break;
+			}
+			case 'result':
+				if (value) metadata.result = value;
+				break;
 		}
 	}
 
@@ -55,9 +98,39 @@ export function serializeMetadata(metadata: WorkoutMetadata): string[] {
 	if (metadata.duration !== undefined) {
 		lines.push(`duration: ${metadata.duration}`);
 	}
+	if (metadata.activeDuration !== undefined) {
+		lines.push(`activeDuration: ${metadata.activeDuration}`);
+	}
+	if (metadata.pauses !== undefined) {
+		lines.push(`pauses: ${metadata.pauses}`);
+	}
 	if (metadata.restDuration !== undefined) {
 		lines.push(`restDuration: ${formatDurationHuman(metadata.restDuration)}`);
 	}
+	if (metadata.program !== undefined) {
+		lines.push(`program: ${metadata.program}`);
+	}
+	if (metadata.mode !== undefined) {
+		lines.push(`mode: ${metadata.mode}`);
+	}
+	if (metadata.interval !== undefined) {
+		lines.push(`interval: ${formatDurationHuman(metadata.interval)}`);
+	}
+	if (metadata.work !== undefined) {
+		lines.push(`work: ${formatDurationHuman(metadata.work)}`);
+	}
+	if (metadata.rest !== undefined) {
+		lines.push(`rest: ${formatDurationHuman(metadata.rest)}`);
+	}
+	if (metadata.rounds !== undefined) {
+		lines.push(`rounds: ${metadata.rounds}`);
+	}
+	if (metadata.cap !== undefined) {
+		lines.push(`cap: ${formatDurationHuman(metadata.cap)}`);
+	}
+	if (metadata.result !== undefined) {
+		lines.push(`result: ${metadata.result}`);
+	}
 
 	return lines;
 }
@@ -0,0 +1,168 @@
+import { ExerciseParam, ParsedWorkout, WeightUnit, WorkoutLogSettings } from './types';
+import { WorkoutHistory, normalizeExerciseName } from './history';
+import { getEstimatedOneRepMax } from './records';
+import { getPlateConfig } from './plates';
+import { ROUNDING_STEP, convertWeight } from './units';
+
+// What a percentage weight is taken of: one-rep max or training max
+export type LoadBasis = '1rm' | 'tm';
+
+export interface PercentageLoad {
+	percent: number;
+	basis: LoadBasis;
+}
+
+// e.g. "75%1RM", "80% TM"
+const PERCENTAGE_PATTERN = /^(\d+(?:\.\d+)?)%\s*(1rm|tm)$/i;
+
+// Training max as a share of the 1RM, used when only one of them is known
+const TRAINING_MAX_RATIO = 0.9;
+
+export function parsePercentageLoad(value: string | undefined): PercentageLoad | undefined {
+	const match = value?.trim().match(PERCENTAGE_PATTERN);
+	if (!match) return undefined;
+	return {
+		percent: parseFloat(match[1] ?? ''),
+		basis: match[2]?.toLowerCase() === 'tm' ? 'tm' : '1rm'
+	};
+}
+
+/**
+ * Value as written in a plan, e.g. "75%1RM"
+ */
+export function formatPercentageLoad(load: PercentageLoad): string {
+	return `${load.percent}%${load.basis === 'tm' ? 'TM' : '1RM'}`;
+}
+
+/**
+ * Human readable form, e.g. "75% of 1RM"
+ */
+export function describePercentageLoad(load: PercentageLoad): string {
+	return `${load.percent}% of ${load.basis === 'tm' ? 'TM' : '1RM'}`;
+}
+
+/**
+ * Scale the percentage of a percentage weight (rounded to 0.5%)
+ * @returns The scaled value, or undefined if the value isn't a percentage weight
+ */
+export function scalePercentageLoad(value: string, factor: number): string | undefined {
+	const load = parsePercentageLoad(value);
+	if (!load) return undefined;
+	return formatPercentageLoad({ ...load, percent: Math.round(load.percent * factor * 2) / 2 });
+}
+
+/**
+ * Parse the training max setting: one "Exercise name: weight" per line
+ */
+export function parseTrainingMaxes(text: string): Map<string, number> {
+	const maxes = new Map<string, number>();
+	for (const line of text.split('\n')) {
+		const colonIndex = line.lastIndexOf(':');
+		if (colonIndex === -1) continue;
+
+		const name = normalizeExerciseName(line.slice(0, colonIndex));
+		const weight = parseFloat(line.slice(colonIndex + 1));
+		if (name && weight > 0) {
+			maxes.set(name, weight);
+		}
+	}
+	return maxes;
+}
+
+/**
+ * One-rep and training max of an exercise in the given unit.
+ * The training max comes from settings, the 1RM from the best logged e1RM (formula from settings);
+ * when only one is known the other is derived from it.
+ */
+export function getExerciseMaxes(
+	exerciseName: string,
+	settings: WorkoutLogSettings,
+	history: WorkoutHistory | null,
+	unit: WeightUnit
+): { oneRepMax: number; trainingMax: number } | null {
+	const configured = parseTrainingMaxes(settings.trainingMaxes).get(normalizeExerciseName(exerciseName));
+	const trainingMax = configured !== undefined ? convertWeight(configured, settings.weightUnit, unit) : undefined;
+	const oneRepMax = history ? getEstimatedOneRepMax(history, exerciseName, unit, settings.e1rmFormula) ?? undefined : undefined;
+
+	if (trainingMax !== undefined) {
+		return { trainingMax, oneRepMax: oneRepMax ?? trainingMax / TRAINING_MAX_RATIO };
+	}
+	if (oneRepMax !== undefined) {
+		return { oneRepMax, trainingMax: oneRepMax * TRAINING_MAX_RATIO };
+	}
+	return null;
+}
+
+/**
+ * Smallest change to what's on a bar: twice the smallest plate, or 0.5 kg / 1 lb without plates
+ */
+export function getLoadIncrement(settings: WorkoutLogSettings, unit: WeightUnit): number {
+	const smallest = getPlateConfig(settings, unit).plates.reduce((min, plate) => Math.min(min, plate.weight), Infinity);
+	return isFinite(smallest) ? smallest * 2 : ROUNDING_STEP[unit];
+}
+
+/**
+ * Round to what can be added to a bar (see getLoadIncrement)
+ */
+export function roundToLoadIncrement(weight: number, settings: WorkoutLogSettings, unit: WeightUnit): number {
+	const increment = getLoadIncrement(settings, unit);
+	return Math.round(Math.round(weight / increment) * increment * 100) / 100;
+}
+
+function resolveValue(
+	exerciseName: string,
+	value: string | undefined,
+	unit: WeightUnit,
+	settings: WorkoutLogSettings,
+	history: WorkoutHistory | null
+): number | null {
+	const load = parsePercentageLoad(value);
+	if (!load) return null;
+
+	const maxes = getExerciseMaxes(exerciseName, settings, history, unit);
+	if (!maxes) return null;
+
+	const base = load.basis === 'tm' ? maxes.trainingMax : maxes.oneRepMax;
+	return roundToLoadIncrement(base * load.percent / 100, settings, unit);
+}
+
+/**
+ * Weight a percentage param stands for, rounded to the plate increment
+ * @returns null if the value isn't a percentage or the exercise has no known max
+ */
+export function resolvePercentageLoad(
+	exerciseName: string,
+	param: ExerciseParam,
+	settings: WorkoutLogSettings,
+	history: WorkoutHistory | null
+): number | null {
+	return resolveValue(exerciseName, param.value, param.weightUnit ?? settings.weightUnit, settings, history);
+}
+
+/**
+ * Copy of the workout with percentage weights replaced by the loads they resolve to,
+ * so logs record what was lifted. Unresolvable values are kept as written.
+ */
+export function resolveWorkoutLoads(
+	workout: ParsedWorkout,
+	settings: WorkoutLogSettings,
+	history: WorkoutHistory | null
+): ParsedWorkout {
+	const resolved = structuredClone(workout);
+
+	for (const exercise of resolved.exercises) {
+		for (const param of exercise.params) {
+			const unit = param.weightUnit ?? settings.weightUnit;
+			const value = resolveValue(exercise.name, param.value, unit, settings, history);
+			if (value !== null) param.value = String(value);
+
+			// A changed percentage weight keeps the plan as its target, e.g. "62.5/75%1RM"
+			const target = resolveValue(exercise.name, param.targetValue, unit, settings, history);
+			if (target !== null) {
+				param.targetValue = String(target) === param.value ? undefined : String(target);
+			}
+		}
+	}
+
+	return resolved;
+}
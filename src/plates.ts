@@ -0,0 +1,165 @@
+import { WeightUnit, WorkoutLogSettings } from './types';
+
+// One plate size and how many pairs are available (Infinity = as many as needed)
+export interface PlateInventory {
+	weight: number;
+	pairs: number;
+}
+
+export interface PlateConfig {
+	unit: WeightUnit;
+	barWeight: number;
+	plates: PlateInventory[];   // Sorted heaviest first
+}
+
+export interface PlateLoadout {
+	target: number;
+	perSide: number[];          // Plates on each side, heaviest first
+	loaded: number;             // Total weight actually on the bar
+	exact: boolean;
+	lower?: number;             // Nearest loadable weight below the target (when not exact)
+	upper?: number;             // Nearest loadable weight above the target (when not exact)
+}
+
+// Plate weights are converted to integers at this precision before solving
+const SCALE = 1000;
+
+// Largest per-side sum (in steps of the common plate size) that is solved, beyond it no plates are suggested
+const MAX_STEPS = 100000;
+
+/**
+ * Parse an inventory like "25x4, 20, 15x1, 1.25" (plate weight, optional number of pairs)
+ */
+export function parsePlateInventory(text: string): PlateInventory[] {
+	const plates: PlateInventory[] = [];
+
+	for (const entry of text.split(',')) {
+		const match = entry.trim().match(/^(\d+(?:\.\d+)?)\s*(?:[x×*]\s*(\d+))?$/i);
+		if (!match) continue;
+
+		const weight = parseFloat(match[1] ?? '');
+		const pairs = match[2] !== undefined ? parseInt(match[2], 10) : Infinity;
+		if (weight > 0 && pairs > 0) {
+			plates.push({ weight, pairs });
+		}
+	}
+
+	return plates.sort((a, b) => b.weight - a.weight);
+}
+
+export function getPlateConfig(settings: WorkoutLogSettings, unit: WeightUnit): PlateConfig {
+	return unit === 'lb'
+		? { unit, barWeight: settings.barWeightLb, plates: parsePlateInventory(settings.platesLb) }
+		: { unit, barWeight: settings.barWeightKg, plates: parsePlateInventory(settings.platesKg) };
+}
+
+function gcd(a: number, b: number): number {
+	return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Work out which plates to load per side for a target weight.
+ * Uses a bounded knapsack over plate counts, preferring the fewest plates for an exact match,
+ * and reports the nearest loadable weights when the target can't be hit exactly.
+ */
+export function calculatePlates(target: number, config: PlateConfig): PlateLoadout {
+	const { barWeight, plates } = config;
+
+	if (target <= barWeight || plates.length === 0) {
+		const exact = Math.abs(target - barWeight) < 1e-9;
+		return {
+			target,
+			perSide: [],
+			loaded: barWeight,
+			exact,
+			lower: exact || target < barWeight ? undefined : barWeight,
+			upper: exact ? undefined : barWeight
+		};
+	}
+
+	// Work in integer steps of the greatest common plate size
+	const scaled = plates.map(p => Math.round(p.weight * SCALE));
+	const step = scaled.reduce((acc, w) => gcd(acc, w));
+	const sizes = scaled.map(w => w / step);
+	const largest = Math.max(...sizes);
+
+	const sideTarget = ((target - barWeight) / 2) * SCALE / step;
+	const limit = Math.ceil(sideTarget) + largest;
+
+	// A typo'd weight like 10000 shouldn't stall the UI
+	if (limit > MAX_STEPS) {
+		return { target, perSide: [], loaded: barWeight, exact: false };
+	}
+
+	// best[s] = fewest plates reaching per-side sum s, choice[t][s] = count of plate t used.
+	// Plates are added lightest first and ties go to the later (heavier) plate, so
+	// equal plate counts prefer big plates (25 + 15 over 20 + 20).
+	let best: number[] = new Array(limit + 1).fill(Infinity);
+	best[0] = 0;
+	const choice: number[][] = [];
+
+	for (let t = sizes.length - 1; t >= 0; t--) {
+		const size = sizes[t] ?? 1;
+		const maxPairs = plates[t]?.pairs ?? 0;
+		const next: number[] = new Array(limit + 1).fill(Infinity);
+		const picked: number[] = new Array(limit + 1).fill(0);
+
+		if (maxPairs * size >= limit) {
+			// As many as fit: one more plate on top of the best for s - size, linear in limit
+			for (let s = 0; s <= limit; s++) {
+				next[s] = best[s] ?? Infinity;
+				const previous = s >= size ? next[s - size] ?? Infinity : Infinity;
+				if (isFinite(previous) && previous + 1 <= (next[s] ?? Infinity)) {
+					next[s] = previous + 1;
+					picked[s] = (picked[s - size] ?? 0) + 1;
+				}
+			}
+		} else {
+			for (let s = 0; s <= limit; s++) {
+				for (let count = 0; count <= maxPairs && count * size <= s; count++) {
+					const previous = best[s - count * size] ?? Infinity;
+					if (previous + count <= (next[s] ?? Infinity) && isFinite(previous)) {
+						next[s] = previous + count;
+						picked[s] = count;
+					}
+				}
+			}
+		}
+
+		best = next;
+		choice[t] = picked;
+	}
+
+	const reachable = (s: number) => s >= 0 && s <= limit && isFinite(best[s] ?? Infinity);
+	const toTotal = (s: number) => Math.round((barWeight + (2 * s * step) / SCALE) * 100) / 100;
+
+	const exactSum = Math.round(sideTarget);
+	const exact = Math.abs(sideTarget - exactSum) < 1e-6 && reachable(exactSum);
+
+	let lowerSum = Math.floor(sideTarget);
+	while (lowerSum > 0 && !reachable(lowerSum)) lowerSum--;
+	let upperSum = Math.ceil(sideTarget);
+	while (upperSum <= limit && !reachable(upperSum)) upperSum++;
+
+	// Load the exact match, otherwise the nearest weight below (never overload the bar)
+	const loadSum = exact ? exactSum : lowerSum;
+	const perSide: number[] = [];
+	let remaining = loadSum;
+	for (let t = 0; t < sizes.length; t++) {
+		const count = choice[t]?.[remaining] ?? 0;
+		for (let i = 0; i < count; i++) {
+			perSide.push(plates[t]?.weight ?? 0);
+		}
+		remaining -= count * (sizes[t] ?? 0);
+	}
+	perSide.sort((a, b) => b - a);
+
+	return {
+		target,
+		perSide,
+		loaded: toTotal(loadSum),
+		exact,
+		lower: exact ? undefined : toTotal(lowerSum),
+		upper: exact || upperSum > limit ? undefined : toTotal(upperSum)
+	};
+}
@@ -0,0 +1,124 @@
+import { Exercise, ExerciseParam, ParsedWorkout } from './types';
+import { ParamProgressionNote, ParamProgressionStatus } from './progression';
+import { ProgressionOutcome } from './autoregulation';
+
+// What resetWorkout decided for one set, collected during a dry run
+export interface ExerciseProgressionReport {
+	index: number;               // Set index in the finished workout
+	name: string;
+	outcome: ProgressionOutcome;
+	skipped: boolean;            // A set of this exercise was skipped
+	misses: number;              // Missed sessions in a row, including this one
+	notes: ParamProgressionNote[];
+	addsSet: boolean;
+}
+
+export interface ParamPreview {
+	key: string;
+	before: string;
+	after: string;
+	unit?: string;
+	status: ParamProgressionStatus | 'planned' | 'deload' | 'reset';
+	reason: string;
+}
+
+export interface SetPreview {
+	name: string;
+	setNumber: number;           // 1-based within the exercise
+	params: ParamPreview[];
+	reason?: string;             // Exercise-level explanation (skipped, held, deload, set added)
+}
+
+export interface ProgressionPreview {
+	sets: SetPreview[];
+	addedSets: { name: string; count: number }[];
+}
+
+function formatValue(param: ExerciseParam): string {
+	return param.targetValue !== undefined ? `${param.value}/${param.targetValue}` : param.value;
+}
+
+function describeOutcome(report: ExerciseProgressionReport, deloadPercent: number): string | undefined {
+	if (report.skipped) return 'A set was skipped, so progression is paused';
+	if (report.outcome === 'hold') return 'A set missed its planned value, holding';
+	if (report.outcome === 'deload') return `${report.misses} missed sessions in a row, deloading by ${deloadPercent}%`;
+	if (report.addsSet) return 'All progression params wrapped, a set is added';
+	return undefined;
+}
+
+/**
+ * Compare a workout with the result of resetting it, explaining each change.
+ * Sets are matched by exercise name and order, extra sets in the result are the added ones.
+ */
+export function buildProgressionPreview(
+	before: ParsedWorkout,
+	after: ParsedWorkout,
+	reports: ExerciseProgressionReport[],
+	deloadPercent: number
+): ProgressionPreview {
+	const setsByName = (exercises: Exercise[]) => {
+		const byName = new Map<string, Exercise[]>();
+		for (const exercise of exercises) {
+			const sets = byName.get(exercise.name) ?? [];
+			sets.push(exercise);
+			byName.set(exercise.name, sets);
+		}
+		return byName;
+	};
+	const afterByName = setsByName(after.exercises);
+	const seen = new Map<string, number>();
+	const sets: SetPreview[] = [];
+
+	before.exercises.forEach((exercise, index) => {
+		const setIndex = seen.get(exercise.name) ?? 0;
+		seen.set(exercise.name, setIndex + 1);
+
+		const next = afterByName.get(exercise.name)?.[setIndex];
+		const report = reports.find(r => r.index === index);
+		if (!next || !report) return;
+
+		const params: ParamPreview[] = [];
+		for (const param of exercise.params) {
+			const nextParam = next.params.find(p => p.key === param.key);
+			if (!nextParam) continue;
+
+			const note = report.notes.find(n => n.key === param.key);
+			const changed = formatValue(param) !== nextParam.value;
+			if (!note && !changed) continue;
+
+			const planned = param.targetValue ?? param.value;
+			let status: ParamPreview['status'];
+			let reason: string;
+			if (note) {
+				status = note.status;
+				reason = report.addsSet && note.status !== 'error' && note.status !== 'wrapped'
+					? `${note.message}, then reset for the added set`
+					: note.message;
+			} else if (nextParam.value === planned) {
+				status = 'planned';
+				reason = `Back to planned ${planned} (logged ${param.value})`;
+			} else if (report.outcome === 'deload') {
+				status = 'deload';
+				reason = `Deload from ${planned}`;
+			} else {
+				status = 'reset';
+				reason = 'Reset for the added set';
+			}
+
+			params.push({ key: param.key, before: formatValue(param), after: nextParam.value, unit: param.unit, status, reason });
+		}
+
+		const reason = describeOutcome(report, deloadPercent);
+		if (params.length > 0 || reason) {
+			sets.push({ name: exercise.name, setNumber: setIndex + 1, params, reason });
+		}
+	});
+
+	const addedSets: { name: string; count: number }[] = [];
+	for (const [name, afterSets] of afterByName) {
+		const count = afterSets.length - (seen.get(name) ?? 0);
+		if (count > 0) addedSets.push({ name, count });
+	}
+
+	return { sets, addedSets };
+}
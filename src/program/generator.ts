@@ -0,0 +1,214 @@
+import { Exercise, ExerciseParam, ParsedWorkout, ProgramWeek, WeightUnit, WorkoutProgram } from '../types';
+import { parseWorkout } from '../parser';
+import { serializeWorkout } from '../serializer';
+import { roundWeight } from '../units';
+import { scalePercentageLoad } from '../percentage';
+import { getProgramLength, getProgramWeek } from './parser';
+
+const REF_PATTERN = /^(.*)#W(\d+)D(\d+)$/;
+
+export interface ProgramRef {
+	path: string;
+	week: number;
+	day: number;
+}
+
+/**
+ * Program day reference stored in generated blocks, e.g. "Programs/Strength.md#W2D1"
+ */
+export function formatProgramRef(ref: ProgramRef): string {
+	return `${ref.path}#W${ref.week}D${ref.day}`;
+}
+
+export function parseProgramRef(value: string): ProgramRef | null {
+	const match = value.trim().match(REF_PATTERN);
+	if (!match) return null;
+	return {
+		path: match[1] ?? '',
+		week: parseInt(match[2] ?? '', 10),
+		day: parseInt(match[3] ?? '', 10)
+	};
+}
+
+/**
+ * Pointer after a day is logged: the next day, or day 1 of the next week after the last day.
+ * After the last week the program starts over at week 1.
+ * Logging a day before the pointer (e.g. a repeated session) leaves it where it is.
+ */
+export function getNextProgramPointer(program: WorkoutProgram, logged: ProgramRef): { week: number; day: number } | null {
+	const isBeforePointer = logged.week < program.week || (logged.week === program.week && logged.day < program.day);
+	if (isBeforePointer) return null;
+
+	const dayIndex = program.days.findIndex(d => d.number === logged.day);
+	const nextDay = program.days[dayIndex + 1];
+	if (dayIndex >= 0 && nextDay) {
+		return { week: logged.week, day: nextDay.number };
+	}
+
+	const firstDay = program.days[0]?.number ?? 1;
+	const nextWeek = logged.week >= getProgramLength(program) ? 1 : logged.week + 1;
+	return { week: nextWeek, day: firstDay };
+}
+
+function scaleWeight(value: string | undefined, percent: number, unit: WeightUnit): string | undefined {
+	if (value === undefined || value === '') return value;
+
+	// Percentage weights scale their percentage (80%TM at 105% is 84%TM)
+	const percentage = scalePercentageLoad(value, percent / 100);
+	if (percentage) return percentage;
+
+	const num = parseFloat(value);
+	if (isNaN(num)) return value;
+	return String(roundWeight(num * percent / 100, unit));
+}
+
+/**
+ * Scale weight params (value and progression bounds) by the week's intensity
+ */
+function applyIntensity(params: ExerciseParam[], percent: number, unit: WeightUnit): ExerciseParam[] {
+	if (percent === 100) return params;
+
+	return params.map(param => {
+		if (param.key.toLowerCase() !== 'weight') return param;
+
+		const paramUnit = param.weightUnit ?? unit;
+		return {
+			...param,
+			value: scaleWeight(param.value, percent, paramUnit) ?? param.value,
+			initialValue: scaleWeight(param.initialValue, percent, paramUnit),
+			maxValue: scaleWeight(param.maxValue, percent, paramUnit)
+		};
+	});
+}
+
+/**
+ * Scale the number of sets of each exercise by the week's volume (at least one set stays).
+ * Consecutive lines with the same name count as sets, extra sets copy the last one.
+ */
+function applyVolume(exercises: Exercise[], percent: number): Exercise[] {
+	if (percent === 100) return exercises;
+
+	const result: Exercise[] = [];
+	let i = 0;
+	while (i < exercises.length) {
+		const first = exercises[i];
+		if (!first) break;
+
+		let end = i;
+		while (exercises[end + 1]?.name === first.name) end++;
+
+		const sets = exercises.slice(i, end + 1);
+		const count = Math.max(1, Math.round(sets.length * percent / 100));
+		for (let s = 0; s < count; s++) {
+			const set = sets[Math.min(s, sets.length - 1)];
+			if (set) result.push(structuredClone(set));
+		}
+
+		i = end + 1;
+	}
+	return result;
+}
+
+/**
+ * Title of a generated block, e.g. "Strength Block W4D1 - Push (Deload)"
+ */
+function formatWorkoutTitle(program: WorkoutProgram, week: ProgramWeek, dayNumber: number, dayName: string): string {
+	const title = `${program.title || 'Program'} W${week.number}D${dayNumber} - ${dayName}`;
+	return week.deload ? `${title} (Deload)` : title;
+}
+
+/**
+ * Concrete workouts for every day of a week, with the week's modifiers applied
+ */
+export function buildWeekWorkouts(program: WorkoutProgram, weekNumber: number, programPath: string, unit: WeightUnit): ParsedWorkout[] {
+	const week = getProgramWeek(program, weekNumber);
+
+	return program.days.map(day => {
+		const exercises = applyVolume(day.exercises, week.volume).map((exercise, index) => ({
+			...exercise,
+			state: 'pending' as const,
+			recordedDuration: undefined,
+			lineIndex: index,
+			params: applyIntensity(exercise.params, week.intensity, unit)
+		}));
+
+		return {
+			metadata: {
+				title: formatWorkoutTitle(program, week, day.number, day.name),
+				state: 'planned',
+				restDuration: program.restDuration,
+				program: formatProgramRef({ path: programPath, week: weekNumber, day: day.number })
+			},
+			exercises,
+			rawLines: [],
+			metadataEndIndex: -1
+		};
+	});
+}
+
+/**
+ * Write a week's workouts into a document. Planned blocks generated earlier for the same
+ * week are replaced, started or completed ones are kept, and missing days are appended
+ * below the week's blocks (or under a new "## <title> - Week N" heading).
+ * @returns The new content and how many blocks were written
+ */
+export function applyWeekToText(
+	content: string,
+	program: WorkoutProgram,
+	weekNumber: number,
+	programPath: string,
+	unit: WeightUnit
+): { content: string; written: number; kept: number } {
+	const lines = content.split('\n');
+	const workouts = buildWeekWorkouts(program, weekNumber, programPath, unit);
+	const pending = new Map(workouts.map(w => [w.metadata.program ?? '', w]));
+	let written = 0;
+	let kept = 0;
+	let lastBlockEnd = -1;
+
+	for (let i = 0; i < lines.length; i++) {
+		if (lines[i]?.trim() !== '```workout') continue;
+
+		const start = i + 1;
+		let end = start;
+		while (end < lines.length && lines[end]?.trim() !== '```') {
+			end++;
+		}
+
+		const existing = parseWorkout(lines.slice(start, end).join('\n'));
+		const ref = existing.metadata.program ?? '';
+		const workout = pending.get(ref);
+		if (workout) {
+			pending.delete(ref);
+			if (existing.metadata.state === 'planned') {
+				const newBody = serializeWorkout(workout).split('\n');
+				lines.splice(start, end - start, ...newBody);
+				end = start + newBody.length;
+				written++;
+			} else {
+				kept++;
+			}
+			lastBlockEnd = end;
+		}
+
+		i = end;
+	}
+
+	const missing = workouts
+		.filter(w => pending.has(w.metadata.program ?? ''))
+		.map(w => `\`\`\`workout\n${serializeWorkout(w)}\n\`\`\``);
+
+	if (missing.length > 0) {
+		written += missing.length;
+		if (lastBlockEnd >= 0) {
+			lines.splice(lastBlockEnd + 1, 0, ...missing.map(block => `\n${block}`));
+		} else {
+			const week = getProgramWeek(program, weekNumber);
+			const heading = `## ${program.title || 'Program'} - Week ${weekNumber}${week.label ? ` (${week.label})` : ''}`;
+			while (lines.length > 0 && lines[lines.length - 1]?.trim() === '') lines.pop();
+			lines.push('', heading, '', missing.join('\n\n'), '');
+		}
+	}
+
+	return { content: lines.join('\n'), written, kept };
+}
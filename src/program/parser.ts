@@ -0,0 +1,187 @@
+import { ProgramDay, ProgramWeek, WorkoutProgram } from '../types';
+import { parseExercise, parseDurationToSeconds } from '../parser/exercise';
+
+const WEEK_PATTERN = /^week\s+(\d+)\s*:\s*(.*)$/i;
+const DAY_PATTERN = /^day\s+(\d+)\s*:?\s*(.*)$/i;
+const PERCENT_PATTERN = /^(intensity|volume|deload)(?:\s+(\d+(?:\.\d+)?)\s*%)?$/i;
+
+// Deload weeks without an explicit percentage train at this intensity
+export const DEFAULT_DELOAD_INTENSITY = 60;
+
+/**
+ * Modifiers for a week, defaulting to 100% when the program doesn't list the week
+ */
+export function getProgramWeek(program: WorkoutProgram, week: number): ProgramWeek {
+	return program.weeks.find(w => w.number === week)
+		?? { number: week, intensity: 100, volume: 100, deload: false };
+}
+
+/**
+ * Number of weeks in the program (the highest listed week, at least 1)
+ */
+export function getProgramLength(program: WorkoutProgram): number {
+	return program.weeks.reduce((max, week) => Math.max(max, week.number), 1);
+}
+
+function parseWeekModifiers(number: number, text: string, errors: string[]): ProgramWeek {
+	const week: ProgramWeek = { number, intensity: 100, volume: 100, deload: false };
+	const labels: string[] = [];
+
+	for (const part of text.split(',').map(p => p.trim()).filter(p => p)) {
+		const match = part.match(PERCENT_PATTERN);
+		if (!match) {
+			labels.push(part);
+			continue;
+		}
+
+		const kind = match[1]?.toLowerCase();
+		const percent = match[2] !== undefined ? parseFloat(match[2]) : undefined;
+		if (kind === 'deload') {
+			week.deload = true;
+			week.intensity = percent ?? DEFAULT_DELOAD_INTENSITY;
+		} else if (percent === undefined || percent <= 0) {
+			errors.push(`Week ${number}: ${kind} needs a percentage, e.g. "${kind} 90%"`);
+		} else if (kind === 'intensity') {
+			week.intensity = percent;
+		} else {
+			week.volume = percent;
+		}
+	}
+
+	if (labels.length > 0) week.label = labels.join(', ');
+	return week;
+}
+
+/**
+ * Parse a workout-program block
+ *
+ * title: Strength Block
+ * week: 1               (pointer, updated as days are logged)
+ * day: 1
+ * restDuration: 2m      (passed on to generated blocks)
+ * ---
+ * Week 1: Accumulation
+ * Week 2: intensity 105%, volume 110%
+ * Week 4: deload 60%, volume 50%
+ *
+ * Day 1: Push
+ * - [ ] Bench Press | Weight: [80] kg | Reps: [5]
+ */
+export function parseProgram(source: string): WorkoutProgram {
+	const lines = source.split('\n');
+	const program: WorkoutProgram = { week: 1, day: 1, weeks: [], days: [], errors: [] };
+
+	const separatorIndex = lines.findIndex(line => line.trim() === '---');
+	const metadataLines = separatorIndex >= 0 ? lines.slice(0, separatorIndex) : [];
+	const bodyLines = separatorIndex >= 0 ? lines.slice(separatorIndex + 1) : lines;
+
+	for (const line of metadataLines) {
+		const colonIndex = line.indexOf(':');
+		if (colonIndex === -1) continue;
+
+		const key = line.slice(0, colonIndex).trim().toLowerCase();
+		const value = line.slice(colonIndex + 1).trim();
+
+		switch (key) {
+			case 'title':
+				program.title = value;
+				break;
+			case 'week':
+			case 'day': {
+				const num = parseInt(value, 10);
+				if (isNaN(num) || num < 1) {
+					program.errors.push(`${key} must be a positive number, got "${value}"`);
+				} else {
+					program[key] = num;
+				}
+				break;
+			}
+			case 'restduration':
+				program.restDuration = parseDurationToSeconds(value);
+				break;
+		}
+	}
+
+	let currentDay: ProgramDay | null = null;
+	for (const line of bodyLines) {
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+
+		const weekMatch = trimmed.match(WEEK_PATTERN);
+		if (weekMatch) {
+			const number = parseInt(weekMatch[1] ?? '', 10);
+			program.weeks.push(parseWeekModifiers(number, weekMatch[2] ?? '', program.errors));
+			continue;
+		}
+
+		const dayMatch = trimmed.match(DAY_PATTERN);
+		if (dayMatch) {
+			const number = parseInt(dayMatch[1] ?? '', 10);
+			currentDay = { number, name: dayMatch[2]?.trim() || `Day ${number}`, exercises: [] };
+			program.days.push(currentDay);
+			continue;
+		}
+
+		const exercise = parseExercise(line, currentDay?.exercises.length ?? 0);
+		if (!exercise) continue;
+		if (!currentDay) {
+			program.errors.push(`"${exercise.name}" is listed before any "Day N:" header`);
+			continue;
+		}
+		currentDay.exercises.push(exercise);
+	}
+
+	program.days.sort((a, b) => a.number - b.number);
+	if (program.days.length === 0) {
+		program.errors.push('No days found, add a "Day 1: Name" header followed by exercises');
+	}
+
+	return program;
+}
+
+/**
+ * Body of the first workout-program block in a document
+ */
+export function findProgramSource(content: string): string | null {
+	const lines = content.split('\n');
+	const start = lines.findIndex(line => line.trim() === '```workout-program');
+	if (start < 0) return null;
+
+	let end = start + 1;
+	while (end < lines.length && lines[end]?.trim() !== '```') {
+		end++;
+	}
+	return lines.slice(start + 1, end).join('\n');
+}
+
+/**
+ * Rewrite the week/day pointer in the first workout-program block of a document.
+ * Missing pointer lines are added at the top of the metadata.
+ */
+export function updateProgramPointerInText(content: string, week: number, day: number): string {
+	const lines = content.split('\n');
+	const start = lines.findIndex(line => line.trim() === '```workout-program');
+	if (start < 0) return content;
+
+	let end = start + 1;
+	while (end < lines.length && lines[end]?.trim() !== '---' && lines[end]?.trim() !== '```') {
+		end++;
+	}
+
+	const values: Record<'week' | 'day', number> = { week, day };
+	const missing = new Set<'week' | 'day'>(['week', 'day']);
+	for (let i = start + 1; i < end; i++) {
+		const match = lines[i]?.match(/^(\s*)(week|day)\s*:/i);
+		const key = match?.[2]?.toLowerCase();
+		if (key !== 'week' && key !== 'day') continue;
+		lines[i] = `${match?.[1] ?? ''}${key}: ${values[key]}`;
+		missing.delete(key);
+	}
+
+	const added = Array.from(missing).map(key => `${key}: ${values[key]}`);
+	// A block without metadata gets its separator too
+	if (added.length > 0 && lines[end]?.trim() !== '---') added.push('---');
+	lines.splice(start + 1, 0, ...added);
+
+	return lines.join('\n');
+}
@@ -1,245 +1,279 @@
-import { ExerciseParam } from './types';
+import { ExerciseParam, ProgressionRoles } from './types';
+import { evaluateFormula, FormulaError } from './formula';
+import { parseDurationToSeconds, formatDurationHuman } from './parser/exercise';
+
+export type ParamProgressionStatus = 'progressed' | 'unchanged' | 'capped' | 'wrapped' | 'waiting' | 'error';
+
+// Only set when a set of the exercise was rated, formulas using them hold otherwise
+const EFFORT_VARIABLES = ['lastRpe', 'lastRir'];
+
+// Why a param with a formula did or didn't move
+export interface ParamProgressionNote {
+	key: string;
+	status: ParamProgressionStatus;
+	message: string;
+}
 
 export interface ProgressionResult {
 	params: ExerciseParam[];
-	shouldAddSet: boolean; // True when both reps and weight are at max
+	shouldAddSet: boolean; // True when the primary and every secondary param wrapped
+	notes: ParamProgressionNote[];
 }
 
 /**
  * Evaluates a progression formula with variable substitution
- * @param formula - The formula string (e.g., "w+2", "((w/r)^2)")
+ * @param formula - The formula string (e.g., "w+2", "((w/r)^2)", "roundTo(w*1.05, 2.5)")
  * @param variables - Map of variable names to values (e.g., {w: 38, r: 8})
  * @returns The evaluated result as a number
  */
 export function evaluateProgressionFormula(formula: string, variables: Record<string, number>): number {
-	// Replace variables with their values
-	let expression = formula;
-	
-	// Replace ^ with ** for JavaScript exponentiation
-	expression = expression.replace(/\^/g, '**');
-	
-	// Replace variable names with their values
-	for (const [varName, value] of Object.entries(variables)) {
-		// Use word boundaries to avoid replacing partial matches
-		const regex = new RegExp(`\\b${varName}\\b`, 'g');
-		expression = expression.replace(regex, value.toString());
-	}
-	
 	try {
-		// Evaluate the expression safely
-		// Note: Using Function constructor for math evaluation
-		// This is safe since we control the input format
-		const result = new Function(`return ${expression}`)();
-		
-		if (typeof result !== 'number' || !isFinite(result)) {
-			throw new Error('Invalid result');
-		}
-		
-		return result;
+		return evaluateFormula(formula, variables);
 	} catch (error) {
-		console.error('Failed to evaluate progression formula:', formula, error);
-		throw new Error(`Invalid progression formula: ${formula}`);
+		const reason = error instanceof FormulaError ? error.message : String(error);
+		throw new Error(`Invalid progression formula "${formula}": ${reason}`);
+	}
+}
+
+/**
+ * Full-name variable for a param key: lowercase, other characters become "_" (e.g. "Band Color" → band_color)
+ */
+export function toVariableName(key: string): string {
+	const name = key.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+	return /^[a-z_]/.test(name) ? name : `_${name}`;
+}
+
+/**
+ * Variable names of each param, keyed by param key.
+ * Every param gets its full name (`reps`, `weight`, `distance`). The first param starting with a letter
+ * also gets it as a short alias (`r`, `w`), so with `Reps` before `Rounds`, `r` is reps.
+ * Duration and RPE/RIR only use their full names so they never take `d` or `r` from another param.
+ */
+export function getVariableNames(params: ExerciseParam[]): Map<string, string[]> {
+	const names = new Map<string, string[]>();
+	for (const param of params) {
+		names.set(param.key, [toVariableName(param.key)]);
+	}
+
+	const taken = new Set(Array.from(names.values(), n => n[0]));
+	for (const param of params) {
+		const letter = param.key.charAt(0).toLowerCase();
+		if (param.effort || param.key.toLowerCase() === 'duration' || taken.has(letter) || !/[a-z_]/.test(letter)) continue;
+		taken.add(letter);
+		names.get(param.key)?.push(letter);
+	}
+
+	return names;
+}
+
+/**
+ * Numeric value of a param (durations like "1m 30s" in seconds)
+ * @returns NaN if the value is not a number
+ */
+function toNumber(param: ExerciseParam, value: string | undefined): number {
+	if (value === undefined || value.trim() === '') return NaN;
+	if (param.key.toLowerCase() === 'duration') {
+		const seconds = parseDurationToSeconds(value);
+		return seconds > 0 || /^0+s?$/.test(value.trim()) ? seconds : NaN;
+	}
+	return parseFloat(value);
+}
+
+function fromNumber(param: ExerciseParam, value: number): string {
+	return param.key.toLowerCase() === 'duration' ? formatDurationHuman(value) : value.toString();
+}
+
+/**
+ * Roles of an exercise's params, from an explicit `Progression: Primary > Secondary` or inferred.
+ * Without one, the first param with a formula and a max (other than Weight) is primary, and Weight
+ * plus any formula params without a max are secondary - the classic reps-then-weight double progression.
+ */
+export function getProgressionRoles(params: ExerciseParam[], explicit?: ProgressionRoles): ProgressionRoles {
+	const findKey = (name: string) => params.find(p => p.key.toLowerCase() === name.toLowerCase())?.key;
+
+	if (explicit) {
+		return {
+			primary: explicit.primary ? findKey(explicit.primary) : undefined,
+			secondary: explicit.secondary.map(findKey).filter((key): key is string => key !== undefined)
+		};
 	}
+
+	const primary = params.find(p => p.progressionFormula && p.maxValue && p.key.toLowerCase() !== 'weight')?.key;
+	const secondary = params
+		.filter(p => p.key !== primary && !p.effort && (
+			p.key.toLowerCase() === 'weight' || (p.progressionFormula && !p.maxValue)
+		))
+		.map(p => p.key);
+
+	return { primary, secondary };
 }
 
 /**
  * Applies progression formulas to exercise parameters with overflow handling.
  * 
  * Progression Logic:
- * 1. First pass: Progress params with maxValue (e.g., Reps) - these always progress
- * 2. Second pass: Progress conditional params (e.g., Weight) - only when reps overflow
- * 3. Set addition: Triggered when reps reach max AND (weight reaches max OR no weight exists)
+ * 1. Primary (e.g., Reps) and params without a role: always progress, capping at max then wrapping to initial
+ * 2. Secondary (e.g., Weight): only progress when the primary wraps, with the same cap/wrap rules
+ * 3. Set addition: Triggered when the primary wraps AND every secondary wraps (or there is none)
  * 
  * @param params - Array of exercise parameters
+ * @param context - Extra variables available to every formula (e.g. lastRpe)
+ * @param explicitRoles - Roles from the exercise's Progression param, inferred when missing
  * @returns ProgressionResult with new params and shouldAddSet flag
  */
-export function applyProgression(params: ExerciseParam[]): ProgressionResult {
-	// First, build a map of variables from param keys to values
-	const variables: Record<string, number> = {};
-	
-	for (const param of params) {
-		// Skip duration params
-		if (param.key.toLowerCase() === 'duration') continue;
-		
-		// Use first letter of key as variable name (lowercase)
-		const varName = param.key.charAt(0).toLowerCase();
-		const value = parseFloat(param.value);
-		
-		if (!isNaN(value)) {
-			variables[varName] = value;
+export function applyProgression(
+	params: ExerciseParam[],
+	context: Record<string, number> = {},
+	explicitRoles?: ProgressionRoles
+): ProgressionResult {
+	const roles = getProgressionRoles(params, explicitRoles);
+	const names = getVariableNames(params);
+
+	// Build the variables from every numeric param
+	const variables: Record<string, number> = { ...context };
+	const setVariable = (param: ExerciseParam, value: number) => {
+		for (const name of names.get(param.key) ?? []) {
+			variables[name] = value;
 		}
+	};
+	for (const param of params) {
+		const value = toNumber(param, param.value);
+		if (!isNaN(value)) setVariable(param, value);
 	}
-	
-	// Track which params overflowed (hit their max)
-	const overflowedParams = new Set<string>();
-	
-	// Track if we're in the "both wrapped" condition (not just capped, but actually wrapped to initial)
-	let repsWrapped = false;
-	let weightWrapped = false;
-	
-	// First pass: Process params WITH maxValue
-	// Distinguish between "always progress" params (like Reps) and "conditional progress" params (like Weight)
-	const firstPassParams = params.map(param => {
-		// Skip params without formula
-		if (!param.progressionFormula) {
+
+	// Params that went from max back to initial
+	const wrapped = new Set<string>();
+	const notes: ParamProgressionNote[] = [];
+
+	const progress = (param: ExerciseParam): ExerciseParam => {
+		if (!param.progressionFormula) return param;
+
+		const formula = param.progressionFormula;
+		const unrated = EFFORT_VARIABLES.find(name => !Object.prototype.hasOwnProperty.call(variables, name) && new RegExp(`\\b${name}\\b`).test(formula));
+		if (unrated) {
+			notes.push({ key: param.key, status: 'unchanged', message: `No set was rated for ${unrated}, holding` });
 			return param;
 		}
-		
-		// Only process params with maxValue in first pass
-		if (!param.maxValue) {
-			return param; // Will be processed in second pass if overflow occurs
-		}
-		
-		const currentVal = parseFloat(param.value);
-		const maxVal = parseFloat(param.maxValue);
-		
-		// Check if this is a "conditional progress" param (Weight with maxValue)
-		// Weight params should only progress when reps overflow, not always
-		const isConditionalParam = param.key.toLowerCase() === 'weight';
-		
-		// For conditional params (weight), just check if wrapped (not just at max), don't progress yet
-		if (isConditionalParam) {
-			// Weight wrapping is detected in second pass, not here
-			return param; // Will be handled in second pass if overflow occurs
-		}
-		
+
 		try {
 			const newValue = evaluateProgressionFormula(param.progressionFormula, variables);
 			
 			// Round to 2 decimal places to avoid floating point issues
-			const roundedValue = Math.round(newValue * 100) / 100;
-			
-			// Check if we've exceeded the max
-			if (!isNaN(maxVal) && roundedValue > maxVal) {
-				// Check if current value is already at max
-				if (currentVal >= maxVal) {
+			let result = Math.round(newValue * 100) / 100;
+			let value = fromNumber(param, result);
+
+			// Check if we've gone past the max (below it for params counting down, e.g. {330,300} for pace)
+			const currentVal = toNumber(param, param.value);
+			const maxVal = toNumber(param, param.maxValue);
+			const descending = maxVal < toNumber(param, param.initialValue);
+			const beyond = (a: number, b: number) => descending ? a < b : a > b;
+			if (!isNaN(maxVal) && beyond(result, maxVal)) {
+				if (!beyond(maxVal, currentVal)) {
 					// Already at max, now wrap to initial
-					overflowedParams.add(param.key);
-					const resetValue = param.initialValue || param.value;
-					
-					// Track that reps wrapped (reset to initial)
-					if (param.key.toLowerCase() === 'reps') {
-						repsWrapped = true;
-					}
-					
-					// Update variables map with the reset value for second pass
-					const varName = param.key.charAt(0).toLowerCase();
-					const resetNumValue = parseFloat(resetValue);
-					if (!isNaN(resetNumValue)) {
-						variables[varName] = resetNumValue;
-					}
-					
-					return {
-						...param,
-						value: resetValue
-					};
+					wrapped.add(param.key);
+					value = param.initialValue || param.value;
+					result = toNumber(param, value);
+					notes.push({ key: param.key, status: 'wrapped', message: `Was at max ${param.maxValue}, wraps to initial ${value}` });
 				} else {
 					// Not at max yet, cap at max value first (but don't mark as wrapped)
-					const varName = param.key.charAt(0).toLowerCase();
-					variables[varName] = maxVal;
-					
-					return {
-						...param,
-						value: maxVal.toString()
-					};
+					result = maxVal;
+					value = param.maxValue ?? value;
+					notes.push({ key: param.key, status: 'capped', message: `(${param.progressionFormula}) passes max, capped at ${value}` });
 				}
+			} else if (value === param.value) {
+				notes.push({ key: param.key, status: 'unchanged', message: `(${param.progressionFormula}) gives the same value` });
+			} else {
+				notes.push({ key: param.key, status: 'progressed', message: `(${param.progressionFormula}) → ${value}` });
 			}
-			
-			// Update variables map with the new progressed value for second pass
-			const varName = param.key.charAt(0).toLowerCase();
-			variables[varName] = roundedValue;
-			
-			return {
-				...param,
-				value: roundedValue.toString()
-			};
+
+			// Later formulas see the progressed value
+			if (!isNaN(result)) setVariable(param, result);
+
+			return { ...param, value };
 		} catch (error) {
 			console.error('Failed to apply progression for param:', param.key, error);
+			notes.push({ key: param.key, status: 'error', message: error instanceof Error ? error.message : String(error) });
 			// Return unchanged if formula fails
 			return param;
 		}
-	});
-	
-	// Second pass: Process params WITHOUT maxValue OR conditional params (Weight with maxValue)
-	// These only progress if a param with maxValue overflowed
-	let finalParams: ExerciseParam[];
-	
-	if (overflowedParams.size > 0) {
-		finalParams = firstPassParams.map(param => {
-			// Skip params that were already processed (Reps-like with maxValue)
-			if (param.maxValue && param.key.toLowerCase() !== 'weight') {
-				return param;
-			}
-			
-			// Skip params without formula
-			if (!param.progressionFormula) {
-				return param;
-			}
-			
-			try {
-				// Apply progression using updated variables (which include overflowed values)
-				const newValue = evaluateProgressionFormula(param.progressionFormula, variables);
-				const PRECISION = 100;
-				const roundedValue = Math.round(newValue * PRECISION) / PRECISION;
-				
-				// Check if weight exceeds max (needs capping or wrapping)
-				if (param.key.toLowerCase() === 'weight' && param.maxValue) {
-					const currentVal = parseFloat(param.value);
-					const maxVal = parseFloat(param.maxValue);
-					
-					if (!isNaN(maxVal) && roundedValue > maxVal) {
-						// Check if already at max
-						if (currentVal >= maxVal) {
-							// Already at max, wrap to initial (THIS is when weight wraps)
-							weightWrapped = true;
-							const resetValue = param.initialValue || param.value;
-							return {
-								...param,
-								value: resetValue
-							};
-						} else {
-							// Not at max yet, cap at max (but don't mark as wrapped)
-							return {
-								...param,
-								value: maxVal.toString()
-							};
-						}
-					}
-				}
-				
-				return {
-					...param,
-					value: roundedValue.toString()
-				};
-			} catch (error) {
-				console.error('Failed to apply progression for param:', param.key, error);
-				return param;
-			}
-		});
+	};
+
+	// First pass: primary and params without a role
+	let finalParams = params.map(param => roles.secondary.includes(param.key) ? param : progress(param));
+
+	// Second pass: secondaries only move when the primary wrapped
+	const primaryWrapped = roles.primary !== undefined && wrapped.has(roles.primary);
+	if (primaryWrapped) {
+		finalParams = finalParams.map(param => roles.secondary.includes(param.key) ? progress(param) : param);
 	} else {
-		// No overflow occurred, weight stays the same (no wrapping)
-		finalParams = firstPassParams;
+		for (const param of params) {
+			if (!roles.secondary.includes(param.key) || !param.progressionFormula) continue;
+			notes.push({
+				key: param.key,
+				status: 'waiting',
+				message: roles.primary ? `Waits for ${roles.primary} to wrap` : 'Secondary without a primary param, never progresses'
+			});
+		}
 	}
-	
-	// Determine if we should add a new set:
-	// BOTH reps and weight must have WRAPPED (not just capped at max)
-	// Reps wrapped AND (weight wrapped OR no weight param exists)
-	const hasWeightParam = params.some(p => p.key.toLowerCase() === 'weight');
-	const shouldAddSet = repsWrapped && (weightWrapped || !hasWeightParam);
-	
+
+	// Add a set once the primary AND every secondary wrapped
+	const shouldAddSet = primaryWrapped && roles.secondary.every(key => wrapped.has(key));
+
 	return {
 		params: finalParams,
-		shouldAddSet
+		shouldAddSet,
+		notes
 	};
 }
 
 /**
- * Parses a param value that may contain a progression formula and bounds
- * Format: (formula){initial,max}value or (formula)value or {initial,max}value or just value
- * Examples: "(r+1){8,12}8", "((w/r)^2)10", "{60,}60", "8"
- * @returns {value, progressionFormula, initialValue, maxValue}
+ * Reset the primary and secondary params when a set is added:
+ * wrap to initial if defined, otherwise cap at max
  */
-export function parseProgressionValue(valueStr: string): { 
+export function resetParamsForNewSet(params: ExerciseParam[], explicitRoles?: ProgressionRoles): ExerciseParam[] {
+	const roles = getProgressionRoles(params, explicitRoles);
+	const roleKeys = roles.primary ? [roles.primary, ...roles.secondary] : roles.secondary;
+
+	return params.map(param => {
+		if (!roleKeys.includes(param.key)) return param;
+
+		if (param.initialValue !== undefined && param.initialValue !== '') {
+			return { ...param, value: param.initialValue };
+		}
+		const currentVal = toNumber(param, param.value);
+		const maxVal = toNumber(param, param.maxValue);
+		if (!isNaN(currentVal) && !isNaN(maxVal) && currentVal > maxVal) {
+			return { ...param, value: param.maxValue ?? param.value };
+		}
+		return param;
+	});
+}
+
+// Achieved value followed by the planned one, e.g. "7/8" = 7 done of 8 planned
+// (the plan may be a percentage weight, e.g. "62.5/75%1RM")
+const TARGET_PATTERN = /^(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?(?:%\s*(?:1rm|tm))?)$/i;
+
+/**
+ * Parses a param value that may contain a progression formula, bounds and a planned target
+ * Format: (formula){initial,max}value[/target]
+ * Examples: "(r+1){8,12}8", "((w/r)^2)10", "{60,}60", "8", "(r+1)7/8"
+ * @returns {value, progressionFormula, initialValue, maxValue, targetValue}
+ */
+export function parseProgressionValue(valueStr: string): {
+	value: string;
+	progressionFormula?: string;
+	initialValue?: string;
+	maxValue?: string;
+	targetValue?: string;
+} {
+	const parsed = parseFormulaAndBounds(valueStr);
+	const targetMatch = parsed.value.match(TARGET_PATTERN);
+	if (!targetMatch) return parsed;
+
+	return { ...parsed, value: targetMatch[1] ?? '', targetValue: targetMatch[2] };
+}
+
+function parseFormulaAndBounds(valueStr: string): {
 	value: string; 
 	progressionFormula?: string;
 	initialValue?: string;
@@ -310,15 +344,17 @@ export function parseProgressionValue(valueStr: string): {
  * @param formula - The progression formula (optional)
  * @param initialValue - The initial value for overflow resets (optional)
  * @param maxValue - The maximum value before overflow (optional)
- * @returns Formatted string like "(w+2){38,50}38" or "(w+2)38" or "{38,50}38" or just "38"
+ * @param targetValue - The planned value when a different one was achieved (optional)
+ * @returns Formatted string like "(w+2){38,50}38" or "(w+2)38" or "{38,50}38" or "7/8" or just "38"
  */
 export function formatProgressionValue(
 	value: string, 
 	formula?: string, 
 	initialValue?: string, 
-	maxValue?: string
+	maxValue?: string,
+	targetValue?: string
 ): string {
-	let result = value;
+	let result = targetValue !== undefined ? `${value}/${targetValue}` : value;
 	
 	// Add bounds if present (using curly braces)
 	if (initialValue !== undefined || maxValue !== undefined) {
@@ -0,0 +1,214 @@
+import { E1rmFormula, Exercise, ParsedWorkout, RecordType, WeightUnit } from './types';
+import { WorkoutHistory } from './history';
+import { parseDurationToSeconds, formatDurationHuman } from './parser/exercise';
+import { getWeightIn } from './units';
+import { estimateOneRepMax } from './e1rm';
+import { isWarmupSet } from './warmup';
+
+// A new personal record set in the current workout
+export interface PersonalRecord {
+	exerciseIndex: number;   // Set that earned the record (last set of the exercise for volume)
+	exerciseName: string;
+	type: RecordType;
+	value: number;
+	previous: number;
+	unit?: string;
+	weight?: number;         // Load for reps-at-weight records
+}
+
+export const RECORD_LABELS: Record<RecordType, string> = {
+	'weight': 'Heaviest weight',
+	'reps': 'Most reps',
+	'e1rm': 'Best estimated 1RM',
+	'duration': 'Longest hold',
+	'volume': 'Session volume'
+};
+
+// Numeric view of a completed set
+interface SetMetrics {
+	weight?: number;
+	reps?: number;
+	duration?: number;
+	unit?: string;
+}
+
+// Weights are compared in the preferred unit so kg and lb sessions line up
+function getSetMetrics(set: Exercise, unit: WeightUnit): SetMetrics {
+	const weightParam = set.params.find(p => p.key.toLowerCase() === 'weight');
+	const repsParam = set.params.find(p => p.key.toLowerCase() === 'reps');
+	const weight = weightParam ? Math.round(getWeightIn(weightParam, unit) * 10) / 10 : NaN;
+	const reps = repsParam ? parseFloat(repsParam.value) : NaN;
+
+	// Duration only counts as a hold when there is nothing else to measure
+	const duration = !repsParam && !weightParam && set.recordedDuration
+		? parseDurationToSeconds(set.recordedDuration)
+		: 0;
+
+	return {
+		weight: isNaN(weight) ? undefined : weight,
+		reps: isNaN(reps) ? undefined : reps,
+		duration: duration > 0 ? duration : undefined,
+		unit: weightParam?.weightUnit ? unit : weightParam?.unit
+	};
+}
+
+function sessionVolume(sets: SetMetrics[]): number {
+	const volume = sets.reduce((sum, set) => sum + (set.weight ?? 0) * (set.reps ?? 0), 0);
+	return Math.round(volume * 10) / 10;
+}
+
+// Best values achieved across all previous sessions of one exercise
+interface ExerciseBests {
+	weight: number;
+	e1rm: number;
+	duration: number;
+	volume: number;
+	repsAtWeight: Map<number, number>;
+}
+
+function getHistoricalBests(history: WorkoutHistory, exerciseName: string, unit: WeightUnit, formula: E1rmFormula): ExerciseBests | null {
+	const sessions = history.getExerciseHistory(exerciseName);
+	if (sessions.length === 0) return null;
+
+	const bests: ExerciseBests = { weight: 0, e1rm: 0, duration: 0, volume: 0, repsAtWeight: new Map() };
+
+	for (const { sets } of sessions) {
+		const metrics = sets.filter(s => s.state === 'completed' && !isWarmupSet(s)).map(set => getSetMetrics(set, unit));
+		for (const m of metrics) {
+			if (m.weight !== undefined) bests.weight = Math.max(bests.weight, m.weight);
+			if (m.duration !== undefined) bests.duration = Math.max(bests.duration, m.duration);
+			if (m.weight !== undefined && m.reps !== undefined) {
+				bests.e1rm = Math.max(bests.e1rm, estimateOneRepMax(m.weight, m.reps, formula));
+				bests.repsAtWeight.set(m.weight, Math.max(bests.repsAtWeight.get(m.weight) ?? 0, m.reps));
+			}
+		}
+		bests.volume = Math.max(bests.volume, sessionVolume(metrics));
+	}
+
+	return bests;
+}
+
+/**
+ * Best estimated 1RM across all logged sessions of an exercise, in the given unit
+ */
+export function getEstimatedOneRepMax(
+	history: WorkoutHistory,
+	exerciseName: string,
+	unit: WeightUnit,
+	formula: E1rmFormula = 'epley'
+): number | null {
+	const bests = getHistoricalBests(history, exerciseName, unit, formula);
+	return bests && bests.e1rm > 0 ? bests.e1rm : null;
+}
+
+/**
+ * Compare completed sets against logged history and return new personal records.
+ * Exercises without any logged history never produce records (the first session is a baseline).
+ */
+export function detectRecords(
+	workout: ParsedWorkout,
+	history: WorkoutHistory,
+	unit: WeightUnit,
+	formula: E1rmFormula = 'epley'
+): PersonalRecord[] {
+	const records: PersonalRecord[] = [];
+
+	// Completed set indices per exercise name, in order
+	const setsByName = new Map<string, number[]>();
+	workout.exercises.forEach((exercise, index) => {
+		if (exercise.state !== 'completed' || isWarmupSet(exercise)) return;
+		const indices = setsByName.get(exercise.name) ?? [];
+		indices.push(index);
+		setsByName.set(exercise.name, indices);
+	});
+
+	for (const [name, indices] of setsByName) {
+		const bests = getHistoricalBests(history, name, unit, formula);
+		if (!bests) continue;
+
+		const sets = indices.map(index => ({ index, metrics: getSetMetrics(workout.exercises[index]!, unit) }));
+		const lastIndex = indices[indices.length - 1] ?? 0;
+
+		// Keep only the best set per record type
+		const best = new Map<string, PersonalRecord>();
+		const consider = (key: string, record: PersonalRecord) => {
+			const current = best.get(key);
+			if (record.value > record.previous && (!current || record.value > current.value)) {
+				best.set(key, record);
+			}
+		};
+
+		for (const { index, metrics } of sets) {
+			const base = { exerciseIndex: index, exerciseName: name, unit: metrics.unit };
+
+			if (metrics.weight !== undefined && bests.weight > 0) {
+				consider('weight', { ...base, type: 'weight', value: metrics.weight, previous: bests.weight });
+			}
+
+			if (metrics.weight !== undefined && metrics.reps !== undefined) {
+				const e1rm = Math.round(estimateOneRepMax(metrics.weight, metrics.reps, formula) * 10) / 10;
+				if (bests.e1rm > 0) {
+					consider('e1rm', { ...base, type: 'e1rm', value: e1rm, previous: Math.round(bests.e1rm * 10) / 10 });
+				}
+
+				const previousReps = bests.repsAtWeight.get(metrics.weight);
+				if (previousReps !== undefined) {
+					consider(`reps@${metrics.weight}`, {
+						...base, type: 'reps', value: metrics.reps, previous: previousReps, weight: metrics.weight
+					});
+				}
+			}
+
+			if (metrics.duration !== undefined && bests.duration > 0) {
+				consider('duration', { ...base, type: 'duration', value: metrics.duration, previous: bests.duration, unit: undefined });
+			}
+		}
+
+		const volume = sessionVolume(sets.map(s => s.metrics));
+		if (volume > 0 && bests.volume > 0) {
+			consider('volume', {
+				exerciseIndex: lastIndex, exerciseName: name, type: 'volume',
+				value: volume, previous: bests.volume, unit: sets[0]?.metrics.unit
+			});
+		}
+
+		records.push(...best.values());
+	}
+
+	return records;
+}
+
+/**
+ * Copy of the workout with each set's records attached (serialized as a PR param)
+ */
+export function annotateRecords(workout: ParsedWorkout, records: PersonalRecord[]): ParsedWorkout {
+	const annotated = structuredClone(workout);
+
+	for (const record of records) {
+		const exercise = annotated.exercises[record.exerciseIndex];
+		if (!exercise) continue;
+		exercise.records = exercise.records ?? [];
+		if (!exercise.records.includes(record.type)) {
+			exercise.records.push(record.type);
+		}
+	}
+
+	return annotated;
+}
+
+/**
+ * Human readable description, e.g. "Bench Press - Heaviest weight: 80 kg (previous 77.5 kg)"
+ */
+export function formatRecord(record: PersonalRecord): string {
+	const format = (value: number): string => {
+		if (record.type === 'duration') return formatDurationHuman(value);
+		if (record.type === 'reps') return `${value} reps`;
+		return `${value}${record.unit ? ` ${record.unit}` : ''}`;
+	};
+
+	const label = record.type === 'reps' && record.weight !== undefined
+		? `${RECORD_LABELS.reps} at ${record.weight}${record.unit ? ` ${record.unit}` : ''}`
+		: RECORD_LABELS[record.type];
+
+	return `${record.exerciseName} - ${label}: ${format(record.value)} (previous ${format(record.previous)})`;
+}
@@ -4,7 +4,8 @@ export function renderWorkoutControls(
 	container: HTMLElement,
 	state: WorkoutState,
 	callbacks: WorkoutCallbacks,
-	parsed: ParsedWorkout
+	parsed: ParsedWorkout,
+	isWorkoutPaused: boolean = false
 ): HTMLElement {
 	const controlsEl = container.createDiv({ cls: 'workout-controls' });
 
@@ -43,6 +44,34 @@ export function renderWorkoutControls(
 		};
 		
 		startBtn.addEventListener('click', handleStart, { capture: true });
+	} else if (state === 'started') {
+		// Whole-workout pause freezes every clock, e.g. for a phone call
+		const pauseBtn = controlsEl.createEl('button', {
+			cls: 'workout-btn workout-btn-pause-workout',
+			text: isWorkoutPaused ? 'Resume workout' : 'Pause workout',
+			attr: { type: 'button' }
+		});
+		pauseBtn.addEventListener('click', (e) => {
+			e.preventDefault();
+			if (pauseBtn.textContent === 'Pause workout') {
+				callbacks.onPauseWorkout();
+				pauseBtn.textContent = 'Resume workout';
+			} else {
+				callbacks.onResumeWorkout();
+				pauseBtn.textContent = 'Pause workout';
+			}
+		});
+
+		// One exercise at a time in large type, for use between sets on a phone
+		const sessionBtn = controlsEl.createEl('button', {
+			cls: 'workout-btn workout-btn-session',
+			text: 'Session view',
+			attr: { type: 'button', 'aria-label': 'Show the current exercise full screen' }
+		});
+		sessionBtn.addEventListener('click', (e) => {
+			e.preventDefault();
+			callbacks.onOpenSession();
+		});
 	} else if (state === 'completed') {
 		// Completed label
 		const completedLabel = controlsEl.createSpan({ cls: 'workout-completed-label' });
@@ -50,5 +79,19 @@ export function renderWorkoutControls(
 		completedLabel.createSpan({ text: 'Workout logged and reset' });
 	}
 
+	// Dry run of progression for blocks that have formulas
+	const hasProgression = parsed.exercises.some(e => e.params.some(p => p.progressionFormula));
+	if (state !== 'completed' && hasProgression) {
+		const previewBtn = controlsEl.createEl('button', {
+			cls: 'workout-btn workout-btn-preview',
+			text: 'Preview next',
+			attr: { type: 'button', 'aria-label': 'Show what this block will look like after finishing' }
+		});
+		previewBtn.addEventListener('click', (e) => {
+			e.preventDefault();
+			callbacks.onPreviewProgression();
+		});
+	}
+
 	return controlsEl;
 }
@@ -1,5 +1,11 @@
-import { Exercise, ExerciseState, TimerState, WorkoutCallbacks } from '../types';
-import { formatDuration } from '../parser/exercise';
+import { Exercise, ExerciseParam, ExerciseState, TimerState, WorkoutCallbacks } from '../types';
+import { formatDuration, formatDurationHuman } from '../parser/exercise';
+import { RECORD_LABELS } from '../records';
+import { PlateConfig } from '../plates';
+import { openPlatePopover } from './plates';
+import { getEffortOptions } from '../effort';
+import { describePercentageLoad, parsePercentageLoad } from '../percentage';
+import { isWarmupSet } from '../warmup';
 
 const STATE_ICONS: Record<ExerciseState, string> = {
 	'pending': '○',
@@ -8,6 +14,9 @@ const STATE_ICONS: Record<ExerciseState, string> = {
 	'skipped': '—'
 };
 
+// Seconds added or taken off a running rest per tap
+const REST_ADJUST_STEP = 15;
+
 // Generate a consistent color hue from exercise name (djb2 hash with better distribution)
 function nameToHue(name: string): number {
 	let hash = 5381;
@@ -23,7 +32,17 @@ function nameToHue(name: string): number {
 export interface ExerciseElements {
 	container: HTMLElement;
 	timerEl: HTMLElement | null;
-	inputs: Map<string, HTMLInputElement>;
+	lastSessionEl: HTMLElement | null;
+	inputs: Map<string, HTMLInputElement | HTMLSelectElement>;
+}
+
+// Optional extras shown next to an exercise
+export interface ExerciseRenderExtras {
+	groupTag?: string;                                           // e.g. A1 for superset/circuit members
+	lastSession?: string | null;                                 // undefined = history not shown
+	getPlateConfig?: (param: ExerciseParam) => PlateConfig | null;  // Plate calculator for weight params
+	resolveLoad?: (param: ExerciseParam) => number | null;          // Weight a percentage value (e.g. 75%1RM) stands for
+	estimateE1rm?: (params: ExerciseParam[]) => number | null;      // e1RM chip on the current set (undefined = not shown)
 }
 
 // Check if exercise has non-Duration params
@@ -38,18 +57,21 @@ export function renderExercise(
 	isActive: boolean,
 	timerState: TimerState | null,
 	callbacks: WorkoutCallbacks,
-	workoutState: 'planned' | 'started' | 'completed'
+	workoutState: 'planned' | 'started' | 'completed',
+	extras: ExerciseRenderExtras = {}
 ): ExerciseElements {
+	const { groupTag, lastSession, getPlateConfig, resolveLoad, estimateE1rm } = extras;
 	const isSimple = !hasDisplayableParams(exercise);
+	const isWarmup = isWarmupSet(exercise);
 	const exerciseEl = container.createDiv({
-		cls: `workout-exercise state-${exercise.state}${isActive ? ' active' : ''}${isSimple ? ' simple' : ''}`
+		cls: `workout-exercise state-${exercise.state}${isActive ? ' active' : ''}${isSimple ? ' simple' : ''}${isWarmup ? ' warmup' : ''}`
 	});
 
 	// Set color based on exercise name
 	const hue = nameToHue(exercise.name);
 	exerciseEl.style.setProperty('--exercise-color', `hsl(${hue}, 65%, 55%)`);
 
-	const inputs = new Map<string, HTMLInputElement>();
+	const inputs = new Map<string, HTMLInputElement | HTMLSelectElement>();
 
 	// Single row: icon | name | params | timer
 	const mainRow = exerciseEl.createDiv({ cls: 'workout-exercise-main' });
@@ -58,10 +80,34 @@ export function renderExercise(
 	const iconEl = mainRow.createSpan({ cls: 'workout-exercise-icon' });
 	iconEl.textContent = STATE_ICONS[exercise.state];
 
+	// Group tag (e.g., A1) for superset/circuit members
+	if (groupTag) {
+		mainRow.createSpan({ cls: 'workout-exercise-group-tag', text: groupTag });
+	}
+
+	// Warm-up rows are tagged so they read apart from working sets
+	if (isWarmup) {
+		mainRow.createSpan({ cls: 'workout-exercise-warmup-tag', text: 'W', attr: { 'aria-label': 'Warm-up set' } });
+	}
+
+	// Lines of a running or logged interval block show their round
+	if (exercise.round !== undefined) {
+		mainRow.createSpan({ cls: 'workout-exercise-round-tag', text: `R${exercise.round}`, attr: { 'aria-label': `Round ${exercise.round}` } });
+	}
+
 	// Exercise name
 	const nameEl = mainRow.createSpan({ cls: 'workout-exercise-name' });
 	nameEl.textContent = exercise.name;
 
+	// Personal record badge (logged blocks only)
+	if (exercise.records && exercise.records.length > 0) {
+		mainRow.createSpan({
+			cls: 'workout-exercise-pr',
+			text: '🏆 PR',
+			attr: { 'aria-label': exercise.records.map(type => RECORD_LABELS[type]).join(', ') }
+		});
+	}
+
 	// Params inline (between name and timer) - chip/pill style
 	if (hasDisplayableParams(exercise)) {
 		const paramsEl = mainRow.createSpan({ cls: 'workout-exercise-params' });
@@ -70,18 +116,52 @@ export function renderExercise(
 			// Skip Duration param (shown in timer)
 			if (param.key.toLowerCase() === 'duration') continue;
 
-			const paramEl = paramsEl.createSpan({ cls: 'workout-param' });
+			const paramEl = paramsEl.createSpan({ cls: `workout-param${param.effort ? ' effort' : ''}` });
+
+			if (param.error) {
+				paramEl.addClass('invalid');
+				paramEl.setAttr('aria-label', param.error);
+			}
+
+			// Percentage weights show the load they resolve to, the plan keeps the percentage
+			const percentage = parsePercentageLoad(param.value);
+			const resolvedLoad = percentage ? resolveLoad?.(param) ?? null : null;
+			const displayValue = resolvedLoad !== null ? String(resolvedLoad) : param.value;
+			if (percentage && resolvedLoad === null) {
+				paramEl.addClass('invalid');
+				paramEl.setAttr('aria-label', `No training max or logged history for ${exercise.name}`);
+			}
 
-			// × prefix for params without units (plain numbers)
-			if (!param.unit) {
+			if (param.effort) {
+				// RPE/RIR are labelled by key since the number alone is ambiguous
+				paramEl.createSpan({ cls: 'workout-param-prefix', text: param.key });
+			} else if (!param.unit) {
+				// × prefix for params without units (plain numbers)
 				paramEl.createSpan({ cls: 'workout-param-prefix', text: '×' });
 			}
 
-			if (param.editable && workoutState !== 'completed') {
+			if (param.effort && param.editable && workoutState !== 'completed') {
+				// Compact selector restricted to valid half-point values
+				const select = paramEl.createEl('select', { cls: 'workout-param-select' });
+				const options = getEffortOptions(param.effort);
+				select.createEl('option', { value: '', text: '–' });
+				if (param.value && !options.includes(param.value)) {
+					select.createEl('option', { value: param.value, text: param.value });
+				}
+				for (const option of options) {
+					select.createEl('option', { value: option, text: option });
+				}
+				select.value = param.value;
+				select.addEventListener('change', () => {
+					callbacks.onParamChange(index, param.key, select.value);
+					paramEl.removeClass('invalid');
+				});
+				inputs.set(param.key, select);
+			} else if (param.editable && workoutState !== 'completed') {
 				const input = paramEl.createEl('input', {
 					cls: 'workout-param-input',
 					type: 'text',
-					value: param.value
+					value: displayValue
 				});
 				// Track changes immediately (updates in-memory state)
 				input.addEventListener('input', () => {
@@ -94,16 +174,85 @@ export function renderExercise(
 				});
 				inputs.set(param.key, input);
 			} else {
-				paramEl.createSpan({ cls: 'workout-param-value', text: param.value });
+				paramEl.createSpan({ cls: 'workout-param-value', text: displayValue });
+			}
+
+			// Planned value when something else was logged, e.g. 7/8
+			if (param.targetValue !== undefined) {
+				paramEl.createSpan({ cls: 'workout-param-target', text: `/${param.targetValue}` });
 			}
 
 			// Unit after value
 			if (param.unit) {
 				paramEl.createSpan({ cls: 'workout-param-unit', text: ` ${param.unit}` });
 			}
+
+			if (percentage && resolvedLoad !== null) {
+				paramEl.createSpan({ cls: 'workout-param-percent', text: describePercentageLoad(percentage) });
+			}
+
+			// Plate calculator for barbell weights
+			const plateConfig = param.key.toLowerCase() === 'weight' ? getPlateConfig?.(param) : null;
+			if (plateConfig) {
+				const input = inputs.get(param.key);
+				const openPlates = (anchor: HTMLElement) => {
+					const weight = parseFloat(input ? input.value : displayValue);
+					if (isNaN(weight)) return;
+					openPlatePopover(anchor, weight, plateConfig, input ? (suggested) => {
+						input.value = String(suggested);
+						callbacks.onParamChange(index, param.key, input.value);
+						callbacks.onFlushChanges();
+					} : undefined);
+				};
+
+				if (input) {
+					const plateBtn = paramEl.createEl('button', {
+						cls: 'workout-param-plates',
+						text: '⚖',
+						attr: { 'aria-label': 'Plate calculator' }
+					});
+					plateBtn.addEventListener('click', (e) => {
+						e.preventDefault();
+						openPlates(plateBtn);
+					});
+				} else {
+					paramEl.addClass('has-plates');
+					paramEl.setAttr('aria-label', 'Show plates');
+					paramEl.addEventListener('click', () => openPlates(paramEl));
+				}
+			}
 		}
 	}
 
+	// Rest actually taken after the set, when recorded
+	if (exercise.restTaken !== undefined) {
+		mainRow.createSpan({ cls: 'workout-exercise-rested', text: `rested ${formatDurationHuman(exercise.restTaken)}` });
+	}
+
+	// e1RM of the current set, updated as weight or reps are edited
+	if (isActive && estimateE1rm) {
+		const weightUnit = exercise.params.find(p => p.key.toLowerCase() === 'weight')?.unit;
+		const e1rmEl = mainRow.createSpan({ cls: 'workout-exercise-e1rm' });
+		const updateE1rm = () => {
+			const params = exercise.params.map(param => {
+				const input = inputs.get(param.key);
+				return input ? { ...param, value: input.value } : param;
+			});
+			const e1rm = estimateE1rm(params);
+			e1rmEl.setText(e1rm !== null ? `e1RM ${e1rm}${weightUnit ? ` ${weightUnit}` : ''}` : '');
+			e1rmEl.toggleClass('is-empty', e1rm === null);
+		};
+		updateE1rm();
+		inputs.forEach(input => input.addEventListener('input', updateE1rm));
+	}
+
+	// What was done in the most recent logged session (undefined = history not shown)
+	let lastSessionEl: HTMLElement | null = null;
+	if (lastSession !== undefined) {
+		lastSessionEl = mainRow.createSpan({ cls: 'workout-exercise-last' });
+		updateLastSession(lastSessionEl, lastSession);
+	}
+
 	// Timer display (right side)
 	const timerEl = mainRow.createSpan({ cls: 'workout-exercise-timer' });
 
@@ -124,7 +273,7 @@ export function renderExercise(
 		renderExerciseControls(exerciseEl, index, timerState?.isResting ?? false, callbacks);
 	}
 
-	return { container: exerciseEl, timerEl, inputs };
+	return { container: exerciseEl, timerEl, lastSessionEl, inputs };
 }
 
 export function renderExerciseControls(
@@ -136,7 +285,23 @@ export function renderExerciseControls(
 	const controlsEl = exerciseEl.createDiv({ cls: 'workout-exercise-controls' });
 
 	if (isResting) {
-		// Rest mode - show only Skip Rest button
+		// Rest mode - adjust the rest, or end it
+		const shortenBtn = controlsEl.createEl('button', { cls: 'workout-btn', text: `-${REST_ADJUST_STEP}s` });
+		shortenBtn.addEventListener('click', () => {
+			callbacks.onAdjustRest(-REST_ADJUST_STEP);
+		});
+
+		const lengthenBtn = controlsEl.createEl('button', { cls: 'workout-btn', text: `+${REST_ADJUST_STEP}s` });
+		lengthenBtn.addEventListener('click', () => {
+			callbacks.onAdjustRest(REST_ADJUST_STEP);
+		});
+
+		// Open-ended rest, counts up until Skip Rest
+		const extendBtn = controlsEl.createEl('button', { cls: 'workout-btn', text: 'Extend', attr: { 'aria-label': 'Rest until you skip' } });
+		extendBtn.addEventListener('click', () => {
+			callbacks.onExtendRest();
+		});
+
 		const skipRestBtn = controlsEl.createEl('button', { cls: 'workout-btn workout-btn-primary', text: 'Skip Rest' });
 		skipRestBtn.addEventListener('click', () => {
 			callbacks.onRestSkip(index);
@@ -178,6 +343,10 @@ export function renderExerciseControls(
 	}
 }
 
+export function updateLastSession(lastSessionEl: HTMLElement, lastSession: string | null): void {
+	lastSessionEl.textContent = lastSession ? `last: ${lastSession}` : '';
+}
+
 export function updateExerciseTimer(
 	timerEl: HTMLElement,
 	timerState: TimerState,
@@ -194,6 +363,14 @@ export function updateExerciseTimer(
 		return;
 	}
 
+	// Extended rest - counting UP until it's ended
+	if (isResting && timerState.restElapsed !== undefined) {
+		timerEl.textContent = `Rest: ${formatDuration(timerState.restElapsed)}`;
+		timerEl.addClass('resting');
+		timerEl.createSpan({ cls: 'timer-indicator rest-count-up', text: ' ▲' });
+		return;
+	}
+
 	// Remove rest styling if not resting
 	timerEl.removeClass('resting');
 
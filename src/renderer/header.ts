@@ -1,17 +1,26 @@
-import { WorkoutMetadata, TimerState } from '../types';
+import { WorkoutMetadata, TimerState, Exercise, IntervalState } from '../types';
 import { formatDuration, formatDurationHuman } from '../parser/exercise';
+import { describeIntervalMode } from '../interval';
 
 export function renderHeader(
 	container: HTMLElement,
 	metadata: WorkoutMetadata,
 	timerState: TimerState | null,
-	isTimerRunning: boolean
+	isTimerRunning: boolean,
+	exercises: Exercise[] = []
 ): { titleEl: HTMLElement; timerEl: HTMLElement } {
 	const headerEl = container.createDiv({ cls: 'workout-header' });
 
 	const titleEl = headerEl.createDiv({ cls: 'workout-title' });
 	titleEl.textContent = metadata.title || 'Workout';
 
+	// Interval mode, with what was achieved once logged
+	if (metadata.mode) {
+		const modeEl = headerEl.createDiv({ cls: 'workout-interval-mode' });
+		const description = describeIntervalMode(metadata, exercises);
+		modeEl.setText(metadata.result ? `${description} · ${metadata.result}` : description);
+	}
+
 	// Display rest duration if defined
 	if (metadata.restDuration) {
 		const restDurationEl = headerEl.createDiv({ cls: 'workout-rest-duration' });
@@ -24,13 +33,14 @@ export function renderHeader(
 	const timerEl = timerContainer.createSpan({ cls: 'workout-timer' });
 
 	if (metadata.state === 'completed' && metadata.duration) {
-		// Show recorded duration
-		timerEl.textContent = metadata.duration;
+		// Show recorded duration (active time first when the workout was paused)
+		timerEl.textContent = metadata.activeDuration
+			? `${metadata.activeDuration} active · ${metadata.duration}`
+			: metadata.duration;
 		timerEl.createSpan({ cls: 'workout-timer-indicator recorded', text: ' ✓' });
 	} else if (isTimerRunning && timerState) {
 		// Show running timer
-		timerEl.textContent = `Total: ${formatDuration(timerState.workoutElapsed)}`;
-		timerEl.createSpan({ cls: 'workout-timer-indicator count-up', text: ' ▲' });
+		updateHeaderTimer(timerEl, timerState);
 	} else if (metadata.state === 'planned') {
 		timerEl.textContent = '--:--';
 	} else {
@@ -45,6 +55,40 @@ export function updateHeaderTimer(
 	timerState: TimerState
 ): void {
 	timerEl.empty();
+	if (timerState.isWorkoutPaused) {
+		timerEl.textContent = `Paused · ${formatDuration(timerState.workoutElapsed)}`;
+		timerEl.createSpan({ cls: 'workout-timer-indicator paused', text: ' ❚❚' });
+		return;
+	}
+	if (timerState.interval && renderIntervalTimer(timerEl, timerState.interval)) return;
+
 	timerEl.textContent = `Total: ${formatDuration(timerState.workoutElapsed)}`;
 	timerEl.createSpan({ cls: 'workout-timer-indicator count-up', text: ' ▲' });
 }
+
+/**
+ * Interval clock: round and phase countdown for EMOM/Tabata, time left before the cap otherwise
+ * @returns false if there is no countdown to show (no cap)
+ */
+function renderIntervalTimer(timerEl: HTMLElement, interval: IntervalState): boolean {
+	if (interval.isOver) {
+		timerEl.textContent = 'Time';
+		timerEl.createSpan({ cls: 'workout-timer-indicator recorded', text: ' ✓' });
+		return true;
+	}
+
+	if (interval.phaseRemaining !== undefined) {
+		const phase = interval.phase === 'rest' ? 'Rest' : 'Work';
+		timerEl.textContent = `Round ${interval.round}/${interval.rounds} · ${phase} ${formatDuration(interval.phaseRemaining)}`;
+		timerEl.createSpan({ cls: `workout-timer-indicator ${interval.phase === 'rest' ? 'interval-rest' : 'count-down'}`, text: ' ▼' });
+		return true;
+	}
+
+	if (interval.capRemaining !== undefined) {
+		timerEl.textContent = `Cap: ${formatDuration(interval.capRemaining)}`;
+		timerEl.createSpan({ cls: 'workout-timer-indicator count-down', text: ' ▼' });
+		return true;
+	}
+
+	return false;
+}
@@ -1,9 +1,14 @@
-import { ParsedWorkout, WorkoutCallbacks, TimerState } from '../types';
+import { ParsedWorkout, WorkoutCallbacks, TimerState, WorkoutLogSettings, ExerciseParam } from '../types';
 import { renderHeader, updateHeaderTimer } from './header';
-import { renderExercise, updateExerciseTimer, renderExerciseControls, ExerciseElements } from './exercise';
+import { renderExercise, updateExerciseTimer, renderExerciseControls, updateLastSession, ExerciseElements } from './exercise';
 import { renderWorkoutControls } from './controls';
 import { renderEmptyState } from './emptyState';
 import { TimerManager } from '../timer/manager';
+import { getExerciseGroups, getGroupTag, ExerciseGroup } from '../groups';
+import { WorkoutHistory, formatSetsSummary } from '../history';
+import { PlateConfig, getPlateConfig } from '../plates';
+import { resolvePercentageLoad } from '../percentage';
+import { estimateSetOneRepMax } from '../e1rm';
 
 export interface RendererContext {
 	el: HTMLElement;
@@ -11,10 +16,12 @@ export interface RendererContext {
 	callbacks: WorkoutCallbacks;
 	workoutId: string;
 	timerManager: TimerManager;
+	history: WorkoutHistory | null;
+	settings: WorkoutLogSettings;
 }
 
 export function renderWorkout(ctx: RendererContext): void {
-	const { el, parsed, callbacks, workoutId, timerManager } = ctx;
+	const { el, parsed, callbacks, workoutId, timerManager, history, settings } = ctx;
 
 	// Clear existing content
 	el.empty();
@@ -34,7 +41,8 @@ export function renderWorkout(ctx: RendererContext): void {
 		container,
 		parsed.metadata,
 		timerState,
-		isTimerRunning
+		isTimerRunning,
+		parsed.exercises
 	);
 
 	// Check if empty workout - show "Add Sample Workout" button
@@ -53,25 +61,81 @@ export function renderWorkout(ctx: RendererContext): void {
 	// Approximate character width (will be refined by CSS)
 	exercisesContainer.style.setProperty('--max-name-chars', String(maxNameLength));
 
+	// Logged blocks are history themselves, so only compare while planning or training
+	const showHistory = history !== null && parsed.metadata.state !== 'completed';
+	const getLastSession = (name: string): string | null => {
+		const last = history?.getLastSession(name);
+		return last ? formatSetsSummary(last.sets) : null;
+	};
+
+	// Weights without a unit are in the preferred unit; other units (e.g. bands) get no calculator
+	const getPlates = (param: ExerciseParam): PlateConfig | null => {
+		if (param.unit && !param.weightUnit) return null;
+		return getPlateConfig(settings, param.weightUnit ?? settings.weightUnit);
+	};
+
+	// Percentage weights count as the load they resolve to
+	const estimateE1rm = (name: string, params: ExerciseParam[]): number | null => {
+		const loads = params.map(param => {
+			const load = resolvePercentageLoad(name, param, settings, history);
+			return load !== null ? { ...param, value: String(load) } : param;
+		});
+		return estimateSetOneRepMax(loads, settings.e1rmFormula);
+	};
+
+	const groups = getExerciseGroups(parsed.exercises);
+	let currentGroup: ExerciseGroup | null = null;
+	let groupContainer: HTMLElement | null = null;
+
 	for (let i = 0; i < parsed.exercises.length; i++) {
 		const exercise = parsed.exercises[i];
 		if (!exercise) continue;
 
+		// Bracket supersets/circuits in their own container
+		if (!currentGroup || i > currentGroup.endIndex) {
+			currentGroup = groups.find(g => g.startIndex === i) ?? null;
+			groupContainer = currentGroup ? renderGroupHeader(exercisesContainer, currentGroup) : null;
+		}
+
 		const isActive = i === initialActiveIndex;
 		const elements = renderExercise(
-			exercisesContainer,
+			groupContainer ?? exercisesContainer,
 			exercise,
 			i,
 			isActive,
 			isActive ? timerState : null,
 			callbacks,
-			parsed.metadata.state
+			parsed.metadata.state,
+			{
+				groupTag: currentGroup ? getGroupTag(currentGroup, exercise) : undefined,
+				lastSession: showHistory ? getLastSession(exercise.name) : undefined,
+				getPlateConfig: getPlates,
+				resolveLoad: param => resolvePercentageLoad(exercise.name, param, settings, history),
+				estimateE1rm: settings.showE1rm ? params => estimateE1rm(exercise.name, params) : undefined
+			}
 		);
 		exerciseElements.push(elements);
 	}
 
+	// Refresh last-session info when the log folder changes (e.g. the index finished loading)
+	if (showHistory && history) {
+		const unsubscribe = history.onChange(() => {
+			if (!container.isConnected) {
+				unsubscribe();
+				return;
+			}
+			parsed.exercises.forEach((exercise, i) => {
+				const lastSessionEl = exerciseElements[i]?.lastSessionEl;
+				if (lastSessionEl) {
+					updateLastSession(lastSessionEl, getLastSession(exercise.name));
+				}
+			});
+		});
+	}
+
 	// Render workout-level controls
-	renderWorkoutControls(container, parsed.metadata.state, callbacks, parsed);
+	renderWorkoutControls(container, parsed.metadata.state, callbacks, parsed, timerState?.isWorkoutPaused ?? false);
+	container.toggleClass('is-paused', timerState?.isWorkoutPaused ?? false);
 
 	// Flush pending changes when focus leaves the workout container
 	container.addEventListener('focusout', (e) => {
@@ -86,14 +150,13 @@ export function renderWorkout(ctx: RendererContext): void {
 	if (isTimerRunning) {
 		// Track the active index at render time to detect when it changes
 		let lastKnownActiveIndex = initialActiveIndex;
-		// Flag to prevent multiple auto-advances from this render instance
-		let hasAutoAdvanced = false;
 		// Track rest state to detect transitions
 		let wasResting = timerState?.isResting ?? false;
 
 		timerManager.subscribe(workoutId, (state: TimerState) => {
 			// Update header timer
 			updateHeaderTimer(headerTimerEl, state);
+			container.toggleClass('is-paused', state.isWorkoutPaused);
 
 			// Get the CURRENT active index from the timer manager (not the stale one)
 			const currentActiveIndex = timerManager.getActiveExerciseIndex(workoutId);
@@ -104,7 +167,7 @@ export function renderWorkout(ctx: RendererContext): void {
 				return;
 			}
 
-			// Update active exercise timer
+			// Update active exercise timer (the plugin ends rests, countdowns and intervals)
 			const activeElements = exerciseElements[currentActiveIndex];
 			const activeExercise = parsed.exercises[currentActiveIndex];
 
@@ -131,13 +194,6 @@ export function renderWorkout(ctx: RendererContext): void {
 						activeExercise.targetDuration,
 						true // isResting flag
 					);
-
-					// Check for auto-advance when rest completes
-					if (!hasAutoAdvanced && state.restRemaining !== undefined && state.restRemaining <= 0) {
-						hasAutoAdvanced = true;
-						// Auto-complete rest and advance
-						callbacks.onRestComplete(currentActiveIndex);
-					}
 				} else {
 					// Normal exercise timer
 					updateExerciseTimer(
@@ -145,22 +201,25 @@ export function renderWorkout(ctx: RendererContext): void {
 						state,
 						activeExercise.targetDuration
 					);
-
-					// Check for auto-advance on countdown completion
-					// Only trigger once per render instance
-					if (!hasAutoAdvanced && activeExercise.targetDuration !== undefined) {
-						if (state.exerciseElapsed >= activeExercise.targetDuration) {
-							hasAutoAdvanced = true;
-							// Auto-advance to next exercise
-							callbacks.onExerciseFinish(currentActiveIndex);
-						}
-					}
 				}
 			}
 		});
 	}
 }
 
+function renderGroupHeader(container: HTMLElement, group: ExerciseGroup): HTMLElement {
+	const groupEl = container.createDiv({ cls: 'workout-group' });
+
+	const kind = group.names.length > 2 ? 'Circuit' : 'Superset';
+	const rounds = group.rounds.length;
+	groupEl.createDiv({
+		cls: 'workout-group-label',
+		text: `${kind} ${group.label} · ${rounds} ${rounds === 1 ? 'round' : 'rounds'}`
+	});
+
+	return groupEl;
+}
+
 export { renderHeader, updateHeaderTimer } from './header';
 export { renderExercise, updateExerciseTimer } from './exercise';
 export { renderWorkoutControls } from './controls';
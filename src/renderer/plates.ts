@@ -0,0 +1,100 @@
+import { PlateConfig, calculatePlates } from '../plates';
+
+// Only one plate popover is open at a time
+let closeOpenPopover: (() => void) | null = null;
+let openAnchor: HTMLElement | null = null;
+
+function formatWeight(value: number, unit: string): string {
+	return `${Math.round(value * 100) / 100} ${unit}`;
+}
+
+/**
+ * Show the plates to load per side for a weight, anchored below the clicked element.
+ * When the weight can't be loaded exactly, the nearest loadable weights are offered
+ * and applied through onApply (editable params only).
+ */
+export function openPlatePopover(
+	anchor: HTMLElement,
+	weight: number,
+	config: PlateConfig,
+	onApply?: (weight: number) => void
+): void {
+	// Clicking the same trigger again toggles the popover off
+	const wasOpen = openAnchor === anchor;
+	closeOpenPopover?.();
+	if (wasOpen) return;
+
+	const loadout = calculatePlates(weight, config);
+	const doc = anchor.ownerDocument;
+	const popover = doc.body.createDiv({ cls: 'workout-plates-popover' });
+
+	popover.createDiv({ cls: 'workout-plates-title', text: formatWeight(weight, config.unit) });
+
+	const barRow = popover.createDiv({ cls: 'workout-plates-row' });
+	barRow.createSpan({ cls: 'workout-plates-label', text: 'Bar' });
+	barRow.createSpan({ text: formatWeight(config.barWeight, config.unit) });
+
+	const sideRow = popover.createDiv({ cls: 'workout-plates-row' });
+	sideRow.createSpan({ cls: 'workout-plates-label', text: 'Per side' });
+	const platesEl = sideRow.createSpan({ cls: 'workout-plates-list' });
+	if (loadout.perSide.length === 0) {
+		platesEl.createSpan({ cls: 'workout-plates-empty', text: 'No plates' });
+	}
+	for (const plate of loadout.perSide) {
+		platesEl.createSpan({ cls: 'workout-plate', text: String(plate) });
+	}
+
+	if (!loadout.exact) {
+		const warningEl = popover.createDiv({ cls: 'workout-plates-warning' });
+		warningEl.setText(`Can't load ${formatWeight(weight, config.unit)} exactly`);
+
+		const suggestions = [loadout.lower, loadout.upper].filter((w): w is number => w !== undefined && w !== weight);
+		if (suggestions.length > 0) {
+			const suggestEl = popover.createDiv({ cls: 'workout-plates-suggestions' });
+			suggestEl.createSpan({ text: onApply ? 'Use ' : 'Nearest: ' });
+			for (const suggestion of suggestions) {
+				if (onApply) {
+					const btn = suggestEl.createEl('button', { cls: 'workout-btn', text: formatWeight(suggestion, config.unit) });
+					btn.addEventListener('click', () => {
+						onApply(suggestion);
+						close();
+					});
+				} else {
+					suggestEl.createSpan({ cls: 'workout-plates-suggestion', text: formatWeight(suggestion, config.unit) });
+				}
+			}
+		}
+	}
+
+	// Position below the anchor, kept inside the viewport
+	const rect = anchor.getBoundingClientRect();
+	const win = doc.defaultView ?? window;
+	const left = Math.min(rect.left, win.innerWidth - popover.offsetWidth - 8);
+	popover.style.left = `${Math.max(8, left) + win.scrollX}px`;
+	popover.style.top = `${rect.bottom + 4 + win.scrollY}px`;
+
+	const onPointerDown = (e: MouseEvent) => {
+		const target = e.target as Node | null;
+		if (target && !popover.contains(target) && !anchor.contains(target)) {
+			close();
+		}
+	};
+	const onKeyDown = (e: KeyboardEvent) => {
+		if (e.key === 'Escape') close();
+	};
+
+	function close(): void {
+		popover.remove();
+		doc.removeEventListener('mousedown', onPointerDown, true);
+		doc.removeEventListener('keydown', onKeyDown, true);
+		if (closeOpenPopover === close) {
+			closeOpenPopover = null;
+			openAnchor = null;
+		}
+	}
+
+	doc.addEventListener('mousedown', onPointerDown, true);
+	doc.addEventListener('keydown', onKeyDown, true);
+	closeOpenPopover = close;
+	openAnchor = anchor;
+}
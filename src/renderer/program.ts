@@ -0,0 +1,64 @@
+import { WorkoutProgram } from '../types';
+import { getProgramLength, getProgramWeek } from '../program/parser';
+
+function formatPercent(value: number): string {
+	return `${Math.round(value * 10) / 10}%`;
+}
+
+/**
+ * Overview of a workout-program block: pointer, weeks with their modifiers and days
+ */
+export function renderProgram(el: HTMLElement, program: WorkoutProgram, onGenerate: () => void): void {
+	el.empty();
+	const container = el.createDiv({ cls: 'workout-program' });
+
+	const headerEl = container.createDiv({ cls: 'workout-program-header' });
+	headerEl.createDiv({ cls: 'workout-program-title', text: program.title || 'Program' });
+	const currentDay = program.days.find(d => d.number === program.day);
+	headerEl.createDiv({
+		cls: 'workout-program-pointer',
+		text: `Up next: week ${program.week}, day ${program.day}${currentDay ? ` (${currentDay.name})` : ''}`
+	});
+
+	if (program.errors.length > 0) {
+		const errorsEl = container.createDiv({ cls: 'workout-program-errors' });
+		for (const error of program.errors) {
+			errorsEl.createDiv({ text: error });
+		}
+	}
+
+	const table = container.createEl('table', { cls: 'workout-program-weeks' });
+	const header = table.createEl('thead').createEl('tr');
+	for (const label of ['Week', 'Intensity', 'Volume', '']) {
+		header.createEl('th', { text: label });
+	}
+	const body = table.createEl('tbody');
+	for (let number = 1; number <= getProgramLength(program); number++) {
+		const week = getProgramWeek(program, number);
+		const row = body.createEl('tr');
+		if (number === program.week) row.addClass('is-current');
+		if (week.deload) row.addClass('is-deload');
+		row.createEl('td', { text: String(number) });
+		row.createEl('td', { text: formatPercent(week.intensity) });
+		row.createEl('td', { text: formatPercent(week.volume) });
+		row.createEl('td', { text: [week.deload ? 'Deload' : '', week.label ?? ''].filter(t => t).join(' - ') });
+	}
+
+	const daysEl = container.createDiv({ cls: 'workout-program-days' });
+	for (const day of program.days) {
+		const dayEl = daysEl.createDiv({ cls: 'workout-program-day' });
+		if (day.number === program.day) dayEl.addClass('is-current');
+		const names = Array.from(new Set(day.exercises.map(e => e.name)));
+		dayEl.createSpan({ cls: 'workout-program-day-name', text: `Day ${day.number}: ${day.name}` });
+		dayEl.createSpan({ cls: 'workout-program-day-exercises', text: names.join(', ') });
+	}
+
+	if (program.days.length > 0) {
+		const controlsEl = container.createDiv({ cls: 'workout-controls' });
+		const generateBtn = controlsEl.createEl('button', {
+			cls: 'workout-btn workout-btn-primary',
+			text: `Generate week ${program.week}`
+		});
+		generateBtn.addEventListener('click', onGenerate);
+	}
+}
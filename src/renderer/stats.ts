@@ -0,0 +1,156 @@
+import { E1rmFormula, StatsOptions, StatsPoint, StatsMetric, WeightUnit } from '../types';
+import { WorkoutHistory } from '../history';
+import { buildStatsSeries } from '../stats/series';
+
+function getMetricLabel(metric: StatsMetric, unit: WeightUnit): string {
+	switch (metric) {
+		case 'top-set': return `Top set weight (${unit})`;
+		case 'e1rm': return `Estimated 1RM (${unit})`;
+		case 'volume': return `Volume (${unit} × reps)`;
+		case 'duration': return 'Session duration (min)';
+		case 'sessions': return 'Sessions';
+	}
+}
+
+// Chart geometry in SVG user units (scaled to container width via viewBox)
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD_LEFT = 48;
+const PAD_RIGHT = 12;
+const PAD_TOP = 12;
+const PAD_BOTTOM = 28;
+const GRID_LINES = 4;
+const MAX_X_LABELS = 6;
+
+export function renderStats(
+	el: HTMLElement,
+	options: StatsOptions,
+	history: WorkoutHistory,
+	unit: WeightUnit,
+	formula: E1rmFormula
+): void {
+	el.empty();
+
+	const metricLabel = getMetricLabel(options.metric, unit);
+	const container = el.createDiv({ cls: 'workout-stats' });
+
+	const headerEl = container.createDiv({ cls: 'workout-stats-header' });
+	headerEl.createDiv({
+		cls: 'workout-stats-title',
+		text: options.title || (options.exercise ? `${options.exercise} - ${metricLabel}` : metricLabel)
+	});
+	headerEl.createDiv({ cls: 'workout-stats-subtitle', text: describeRange(options) });
+
+	if (options.errors.length > 0) {
+		const errorsEl = container.createDiv({ cls: 'workout-stats-errors' });
+		for (const error of options.errors) {
+			errorsEl.createDiv({ text: error });
+		}
+		return;
+	}
+
+	const points = buildStatsSeries(history, options, unit, formula);
+	if (points.length === 0) {
+		container.createDiv({ cls: 'workout-stats-empty', text: 'No logged workouts match these options' });
+		return;
+	}
+
+	renderChart(container, points, options.metric === 'sessions' ? 'bar' : 'line');
+}
+
+function describeRange(options: StatsOptions): string {
+	const range = options.from && options.to
+		? `${options.from} – ${options.to}`
+		: options.from ? `since ${options.from}`
+		: options.to ? `until ${options.to}`
+		: 'all time';
+	return `${range} · per ${options.aggregation}`;
+}
+
+/**
+ * Round an axis bound up to a "nice" number (1, 2, 2.5 or 5 × 10^n)
+ */
+function niceCeil(value: number): number {
+	if (value <= 0) return 1;
+	const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+	for (const step of [1, 2, 2.5, 5, 10]) {
+		if (value <= step * magnitude) return step * magnitude;
+	}
+	return 10 * magnitude;
+}
+
+function formatAxisValue(value: number): string {
+	if (value >= 10000) return `${Math.round(value / 1000)}k`;
+	return String(Math.round(value * 10) / 10);
+}
+
+function renderChart(container: HTMLElement, points: StatsPoint[], kind: 'line' | 'bar'): void {
+	const values = points.map(p => p.value);
+	const rawMin = Math.min(...values);
+	const rawMax = Math.max(...values);
+
+	// Bars always start at zero, lines zoom in on the data range
+	const yMin = kind === 'bar' || rawMin === rawMax ? 0 : Math.max(0, rawMin - (rawMax - rawMin) * 0.1);
+	const yMax = yMin + niceCeil((rawMax - yMin) || rawMax || 1);
+
+	const plotWidth = WIDTH - PAD_LEFT - PAD_RIGHT;
+	const plotHeight = HEIGHT - PAD_TOP - PAD_BOTTOM;
+	const slot = plotWidth / points.length;
+	const x = (i: number) => kind === 'bar'
+		? PAD_LEFT + slot * (i + 0.5)
+		: PAD_LEFT + (points.length === 1 ? plotWidth / 2 : (plotWidth * i) / (points.length - 1));
+	const y = (value: number) => PAD_TOP + plotHeight - ((value - yMin) / (yMax - yMin)) * plotHeight;
+
+	const svg = container.createSvg('svg', {
+		cls: 'workout-stats-chart',
+		attr: { viewBox: `0 0 ${WIDTH} ${HEIGHT}`, preserveAspectRatio: 'xMidYMid meet', role: 'img' }
+	});
+
+	// Horizontal grid lines and y-axis labels
+	for (let i = 0; i <= GRID_LINES; i++) {
+		const value = yMin + ((yMax - yMin) * i) / GRID_LINES;
+		const gy = y(value);
+		svg.createSvg('line', {
+			cls: 'workout-stats-grid',
+			attr: { x1: PAD_LEFT, x2: WIDTH - PAD_RIGHT, y1: gy, y2: gy }
+		});
+		svg.createSvg('text', {
+			cls: 'workout-stats-axis',
+			attr: { x: PAD_LEFT - 6, y: gy + 4, 'text-anchor': 'end' }
+		}).textContent = formatAxisValue(value);
+	}
+
+	// X-axis labels, thinned out so they don't overlap
+	const labelEvery = Math.max(1, Math.ceil(points.length / MAX_X_LABELS));
+	points.forEach((point, i) => {
+		if (i % labelEvery !== 0 && i !== points.length - 1) return;
+		svg.createSvg('text', {
+			cls: 'workout-stats-axis',
+			attr: { x: x(i), y: HEIGHT - 8, 'text-anchor': 'middle' }
+		}).textContent = point.label;
+	});
+
+	if (kind === 'bar') {
+		const barWidth = Math.max(2, slot * 0.7);
+		points.forEach((point, i) => {
+			const top = y(point.value);
+			const bar = svg.createSvg('rect', {
+				cls: 'workout-stats-bar',
+				attr: { x: x(i) - barWidth / 2, y: top, width: barWidth, height: PAD_TOP + plotHeight - top, rx: 2 }
+			});
+			bar.createSvg('title').textContent = `${point.label}: ${point.value}`;
+		});
+		return;
+	}
+
+	const path = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(point.value)}`).join(' ');
+	svg.createSvg('path', { cls: 'workout-stats-line', attr: { d: path } });
+
+	points.forEach((point, i) => {
+		const dot = svg.createSvg('circle', {
+			cls: 'workout-stats-point',
+			attr: { cx: x(i), cy: y(point.value), r: 3 }
+		});
+		dot.createSvg('title').textContent = `${point.label}: ${point.value}`;
+	});
+}
@@ -1,6 +1,7 @@
 import { ParsedWorkout, Exercise, ExerciseState } from './types';
 import { serializeMetadata } from './parser/metadata';
-import { serializeExercise, getStateChar } from './parser/exercise';
+import { serializeExercise, getStateChar, formatProgressionRoles } from './parser/exercise';
+import { parsePercentageLoad } from './percentage';
 
 export function serializeWorkout(parsed: ParsedWorkout): string {
 	const lines: string[] = [];
@@ -21,11 +22,13 @@ export function serializeWorkout(parsed: ParsedWorkout): string {
 }
 
 // Update a specific param value in a workout
+// With recordTarget, the planned value is kept as the target when a numeric value changes (e.g. "7/8")
 export function updateParamValue(
 	parsed: ParsedWorkout,
 	exerciseIndex: number,
 	paramKey: string,
-	newValue: string
+	newValue: string,
+	recordTarget = false
 ): ParsedWorkout {
 	const newParsed = structuredClone(parsed);
 	const exercise = newParsed.exercises[exerciseIndex];
@@ -33,7 +36,17 @@ export function updateParamValue(
 
 	const param = exercise.params.find(p => p.key === paramKey);
 	if (param) {
+		const isPlannedNumber = (!param.effort && param.key.toLowerCase() !== 'duration' && !isNaN(Number(param.value)) && param.value.trim() !== '')
+			|| parsePercentageLoad(param.value) !== undefined;
+		if (recordTarget && param.targetValue === undefined && isPlannedNumber) {
+			param.targetValue = param.value;
+		}
 		param.value = newValue;
+
+		// Back on plan (or no longer a number): nothing to compare against
+		if (param.targetValue === newValue || isNaN(Number(newValue)) || newValue.trim() === '') {
+			param.targetValue = undefined;
+		}
 	}
 
 	return newParsed;
@@ -77,6 +90,7 @@ export function addSet(parsed: ParsedWorkout, exerciseIndex: number): ParsedWork
 		...structuredClone(exercise),
 		state: 'pending',
 		recordedDuration: undefined,
+		restTaken: undefined,
 		lineIndex: exercise.lineIndex + 1
 	};
 
@@ -129,6 +143,20 @@ export function setRecordedDuration(
 	return newParsed;
 }
 
+// Record the rest taken after a set
+export function setRestTaken(
+	parsed: ParsedWorkout,
+	exerciseIndex: number,
+	seconds: number
+): ParsedWorkout {
+	const newParsed = structuredClone(parsed);
+	const exercise = newParsed.exercises[exerciseIndex];
+	if (!exercise) return parsed;
+
+	exercise.restTaken = seconds;
+	return newParsed;
+}
+
 // Create a sample workout with comprehensive exercise examples
 export function createSampleWorkout(): ParsedWorkout {
 	const metadata = {
@@ -236,7 +264,7 @@ export function serializeWorkoutAsTemplate(parsed: ParsedWorkout): string {
 				const durationStr = mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
 				line += `[${durationStr}]`;
 			} else {
-				line += `[${param.value}]`;
+				line += `[${param.targetValue ?? param.value}]`;
 			}
 
 			if (param.unit) {
@@ -244,6 +272,16 @@ export function serializeWorkoutAsTemplate(parsed: ParsedWorkout): string {
 			}
 		}
 
+		// Add Group parameter if present
+		if (exercise.group) {
+			line += ` | Group: ${exercise.group}`;
+		}
+
+		// Add Progression parameter if present
+		if (exercise.progression) {
+			line += ` | Progression: ${formatProgressionRoles(exercise.progression)}`;
+		}
+
 		// Add Rest parameter if present
 		if (exercise.restAfter !== undefined) {
 			line += ` | Rest: [${exercise.restAfter}s]`;
@@ -1,11 +1,29 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import WorkoutLogPlugin from './main';
-import { WorkoutLogSettings } from './types';
+import { E1rmFormula, WorkoutLogSettings, WeightUnit } from './types';
 import { FolderSuggest } from './ui/FolderSuggest';
 
 export const DEFAULT_SETTINGS: WorkoutLogSettings = {
 	logFolder: 'Workout Logs',
-	logGrouping: 'daily'
+	logGrouping: 'daily',
+	weightUnit: 'kg',
+	barWeightKg: 20,
+	barWeightLb: 45,
+	platesKg: '25, 20, 15, 10, 5, 2.5, 1.25',
+	platesLb: '45, 35, 25, 10, 5, 2.5',
+	deloadAfterMisses: 3,
+	deloadPercent: 10,
+	trainingMaxes: '',
+	e1rmFormula: 'epley',
+	showE1rm: false,
+	recordRest: false,
+	showMiniTimer: false,
+	warmupSchemes: 'default: bar x 10, 40% x 5, 60% x 3, 80% x 1',
+	cueRest: true,
+	cueCountdown: true,
+	cueInterval: true,
+	cueVibrate: true,
+	cueVolume: 50
 };
 
 export class WorkoutLogSettingTab extends PluginSettingTab {
@@ -66,5 +84,209 @@ export class WorkoutLogSettingTab extends PluginSettingTab {
 					// Update logger settings
 					this.plugin.logger?.updateSettings(this.plugin.settings);
 				}));
+
+		new Setting(containerEl)
+			.setName('Weight unit')
+			.setDesc('Unit used to compare history, records and charts. Weights written in the other unit are converted.')
+			.addDropdown(dropdown => dropdown
+				.addOption('kg', 'Kilograms (kg)')
+				.addOption('lb', 'Pounds (lb)')
+				.setValue(this.plugin.settings.weightUnit)
+				.onChange(async (value) => {
+					this.plugin.settings.weightUnit = value as WeightUnit;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Estimated 1RM formula')
+			.setDesc('Used for e1RM records, charts, percentage weights and the e1rm formula variable')
+			.addDropdown(dropdown => dropdown
+				.addOption('epley', 'Epley')
+				.addOption('brzycki', 'Brzycki')
+				.setValue(this.plugin.settings.e1rmFormula)
+				.onChange(async (value) => {
+					this.plugin.settings.e1rmFormula = value as E1rmFormula;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Show estimated 1RM')
+			.setDesc('Show the e1RM of the current set while training')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showE1rm)
+				.onChange(async (value) => {
+					this.plugin.settings.showE1rm = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Record rest taken')
+			.setDesc('Write the rest actually taken next to each set (e.g. Rested: 2m 10s), so logs show adjusted or skipped rests')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.recordRest)
+				.onChange(async (value) => {
+					this.plugin.settings.recordRest = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Floating timer')
+			.setDesc('Show a small panel with the current exercise, its timer and controls while a running workout\'s note isn\'t the active one (the status bar always shows it)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showMiniTimer)
+				.onChange(async (value) => {
+					this.plugin.settings.showMiniTimer = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Sounds and vibration' });
+
+		new Setting(containerEl)
+			.setName('Rest cues')
+			.setDesc('Beep at 3, 2, 1 seconds left and when a rest period ends')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cueRest)
+				.onChange(async (value) => {
+					this.plugin.settings.cueRest = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Countdown cues')
+			.setDesc('Beep at 3, 2, 1 seconds left and when a countdown duration like Duration: [60s] ends')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cueCountdown)
+				.onChange(async (value) => {
+					this.plugin.settings.cueCountdown = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Interval cues')
+			.setDesc('Beep when an EMOM or Tabata interval changes and before an AMRAP or for time cap')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cueInterval)
+				.onChange(async (value) => {
+					this.plugin.settings.cueInterval = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Vibrate')
+			.setDesc('Also vibrate with each cue on mobile devices that support it')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cueVibrate)
+				.onChange(async (value) => {
+					this.plugin.settings.cueVibrate = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Volume')
+			.setDesc('Volume of the beeps, 0 = vibration only')
+			.addSlider(slider => slider
+				.setLimits(0, 100, 5)
+				.setValue(this.plugin.settings.cueVolume)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.cueVolume = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Progression' });
+
+		new Setting(containerEl)
+			.setName('Deload after missed sessions')
+			.setDesc('Reduce the weight after this many sessions in a row where a set missed its planned value. 0 = never deload, just hold.')
+			.addText(text => text
+				.setPlaceholder('3')
+				.setValue(String(this.plugin.settings.deloadAfterMisses))
+				.onChange(async (value) => {
+					const misses = parseInt(value, 10);
+					this.plugin.settings.deloadAfterMisses = isNaN(misses) || misses < 0 ? DEFAULT_SETTINGS.deloadAfterMisses : misses;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Deload percentage')
+			.setDesc('How much to reduce the weight by on a deload')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.deloadPercent))
+				.onChange(async (value) => {
+					const percent = parseFloat(value);
+					this.plugin.settings.deloadPercent = isNaN(percent) || percent < 0 || percent >= 100 ? DEFAULT_SETTINGS.deloadPercent : percent;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Training maxes')
+			.setDesc('Used by percentage weights like 80%TM, one "Exercise: weight" per line in the preferred unit. Exercises not listed use 90% of their best estimated 1RM from the log.')
+			.addTextArea(text => text
+				.setPlaceholder('Bench Press: 100\nSquat: 140')
+				.setValue(this.plugin.settings.trainingMaxes)
+				.onChange(async (value) => {
+					this.plugin.settings.trainingMaxes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Warm-up schemes')
+			.setDesc('Ramps generated for exercises marked "Warmup: auto" (first scheme) or "Warmup: <name>". One "name: steps" per line, each step is "bar" or a percentage of the first working weight, times reps.')
+			.addTextArea(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.warmupSchemes)
+				.setValue(this.plugin.settings.warmupSchemes)
+				.onChange(async (value) => {
+					this.plugin.settings.warmupSchemes = value || DEFAULT_SETTINGS.warmupSchemes;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Plate calculator' });
+
+		new Setting(containerEl)
+			.setName('Bar weight (kg)')
+			.setDesc('Empty barbell weight for kg loads')
+			.addText(text => text
+				.setPlaceholder('20')
+				.setValue(String(this.plugin.settings.barWeightKg))
+				.onChange(async (value) => {
+					const weight = parseFloat(value);
+					this.plugin.settings.barWeightKg = isNaN(weight) ? DEFAULT_SETTINGS.barWeightKg : weight;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Plates (kg)')
+			.setDesc('Available plate weights, comma separated. Add xN to limit the number of pairs, e.g. 25x4, 20, 1.25x1')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.platesKg)
+				.setValue(this.plugin.settings.platesKg)
+				.onChange(async (value) => {
+					this.plugin.settings.platesKg = value || DEFAULT_SETTINGS.platesKg;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Bar weight (lb)')
+			.setDesc('Empty barbell weight for lb loads')
+			.addText(text => text
+				.setPlaceholder('45')
+				.setValue(String(this.plugin.settings.barWeightLb))
+				.onChange(async (value) => {
+					const weight = parseFloat(value);
+					this.plugin.settings.barWeightLb = isNaN(weight) ? DEFAULT_SETTINGS.barWeightLb : weight;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Plates (lb)')
+			.setDesc('Available plate weights for lb loads, same format as above')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.platesLb)
+				.setValue(this.plugin.settings.platesLb)
+				.onChange(async (value) => {
+					this.plugin.settings.platesLb = value || DEFAULT_SETTINGS.platesLb;
+					await this.plugin.saveSettings();
+				}));
 	}
 }
@@ -0,0 +1,80 @@
+import { moment } from 'obsidian';
+import { WorkoutHistory, HistorySession } from '../history';
+import { parseDurationToSeconds } from '../parser/exercise';
+import { getWeightIn } from '../units';
+import { isWarmupSet } from '../warmup';
+import { WeightUnit } from '../types';
+
+export type CalendarMetric = 'duration' | 'volume';
+
+// Everything logged on one day
+export interface CalendarDay {
+	date: string;                // YYYY-MM-DD
+	value: number;               // Minutes or volume, depending on the metric
+	sessions: HistorySession[];
+}
+
+export interface StreakInfo {
+	current: number;             // Consecutive days up to today (or yesterday)
+	longest: number;
+}
+
+export function getSessionDurationMinutes(session: HistorySession): number {
+	// Paused workouts count their active time
+	const seconds = parseDurationToSeconds(session.workout.metadata.activeDuration ?? session.workout.metadata.duration ?? '');
+	return Math.round(seconds / 6) / 10;
+}
+
+export function getSessionVolume(session: HistorySession, unit: WeightUnit): number {
+	let volume = 0;
+	for (const set of session.workout.exercises) {
+		if (set.state !== 'completed' || isWarmupSet(set)) continue;
+		const weightParam = set.params.find(p => p.key.toLowerCase() === 'weight');
+		const weight = weightParam ? getWeightIn(weightParam, unit) : NaN;
+		const reps = parseFloat(set.params.find(p => p.key.toLowerCase() === 'reps')?.value ?? '');
+		if (!isNaN(weight) && !isNaN(reps)) {
+			volume += weight * reps;
+		}
+	}
+	return volume;
+}
+
+/**
+ * Logged sessions grouped by day, with the chosen metric summed per day
+ */
+export function getCalendarDays(history: WorkoutHistory, metric: CalendarMetric, unit: WeightUnit): Map<string, CalendarDay> {
+	const days = new Map<string, CalendarDay>();
+
+	for (const session of history.getSessions()) {
+		const day = days.get(session.date) ?? { date: session.date, value: 0, sessions: [] };
+		day.value += metric === 'duration' ? getSessionDurationMinutes(session) : getSessionVolume(session, unit);
+		day.sessions.push(session);
+		days.set(session.date, day);
+	}
+
+	return days;
+}
+
+/**
+ * Current and longest runs of consecutive training days.
+ * The current streak is still alive if the last workout was yesterday.
+ */
+export function getStreaks(dates: string[]): StreakInfo {
+	const sorted = Array.from(new Set(dates)).sort();
+	let longest = 0;
+	let run = 0;
+	let previous: string | null = null;
+
+	for (const date of sorted) {
+		const expected: string | null = previous ? moment(previous).add(1, 'day').format('YYYY-MM-DD') : null;
+		run = date === expected ? run + 1 : 1;
+		longest = Math.max(longest, run);
+		previous = date;
+	}
+
+	const today = moment().format('YYYY-MM-DD');
+	const yesterday = moment().subtract(1, 'day').format('YYYY-MM-DD');
+	const current = previous === today || previous === yesterday ? run : 0;
+
+	return { current, longest };
+}
@@ -0,0 +1,105 @@
+import { moment } from 'obsidian';
+import { StatsOptions, StatsMetric, StatsAggregation } from '../types';
+
+const VALID_METRICS: StatsMetric[] = ['top-set', 'e1rm', 'volume', 'duration', 'sessions'];
+const VALID_AGGREGATIONS: StatsAggregation[] = ['session', 'week', 'month'];
+
+// Default aggregation per metric (counting sessions per session is meaningless)
+const DEFAULT_AGGREGATION: Record<StatsMetric, StatsAggregation> = {
+	'top-set': 'session',
+	'e1rm': 'session',
+	'volume': 'session',
+	'duration': 'session',
+	'sessions': 'week'
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RANGE_PATTERN = /^(\d+)\s*([dwmy])$/;
+const RANGE_UNITS: Record<string, 'days' | 'weeks' | 'months' | 'years'> = {
+	d: 'days',
+	w: 'weeks',
+	m: 'months',
+	y: 'years'
+};
+
+/**
+ * Parse a workout-stats block body (key: value lines)
+ *
+ * exercise: Bench Press
+ * metric: top-set | e1rm | volume | duration | sessions
+ * aggregation: session | week | month
+ * from: 2026-01-01
+ * to: 2026-03-31
+ * range: 12w            (relative to today, alternative to from)
+ * title: Bench progress
+ */
+export function parseStatsOptions(source: string): StatsOptions {
+	const options: StatsOptions = {
+		metric: 'volume',
+		aggregation: 'session',
+		errors: []
+	};
+	let aggregation: StatsAggregation | undefined;
+
+	for (const line of source.split('\n')) {
+		const colonIndex = line.indexOf(':');
+		if (colonIndex === -1) continue;
+
+		const key = line.substring(0, colonIndex).trim().toLowerCase();
+		const value = line.substring(colonIndex + 1).trim();
+		if (!value) continue;
+
+		switch (key) {
+			case 'exercise':
+				options.exercise = value;
+				break;
+			case 'metric':
+				if (VALID_METRICS.includes(value.toLowerCase() as StatsMetric)) {
+					options.metric = value.toLowerCase() as StatsMetric;
+				} else {
+					options.errors.push(`Unknown metric "${value}" (use ${VALID_METRICS.join(', ')})`);
+				}
+				break;
+			case 'aggregation':
+			case 'aggregate':
+				if (VALID_AGGREGATIONS.includes(value.toLowerCase() as StatsAggregation)) {
+					aggregation = value.toLowerCase() as StatsAggregation;
+				} else {
+					options.errors.push(`Unknown aggregation "${value}" (use ${VALID_AGGREGATIONS.join(', ')})`);
+				}
+				break;
+			case 'from':
+			case 'to':
+				if (DATE_PATTERN.test(value)) {
+					options[key] = value;
+				} else {
+					options.errors.push(`Invalid ${key} date "${value}" (use YYYY-MM-DD)`);
+				}
+				break;
+			case 'range': {
+				const match = value.toLowerCase().match(RANGE_PATTERN);
+				const unit = RANGE_UNITS[match?.[2] ?? ''];
+				if (match && unit) {
+					options.from = moment().subtract(parseInt(match[1] ?? '0', 10), unit).format('YYYY-MM-DD');
+				} else {
+					options.errors.push(`Invalid range "${value}" (e.g. 30d, 12w, 6m, 1y)`);
+				}
+				break;
+			}
+			case 'title':
+				options.title = value;
+				break;
+		}
+	}
+
+	options.aggregation = aggregation ?? DEFAULT_AGGREGATION[options.metric];
+
+	if ((options.metric === 'top-set' || options.metric === 'e1rm') && !options.exercise) {
+		options.errors.push(`The ${options.metric} metric needs an exercise`);
+	}
+	if (options.metric === 'sessions' && options.aggregation === 'session') {
+		options.errors.push('The sessions metric needs week or month aggregation');
+	}
+
+	return options;
+}
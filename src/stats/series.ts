@@ -0,0 +1,117 @@
+import { moment } from 'obsidian';
+import { E1rmFormula, Exercise, StatsOptions, StatsPoint, WeightUnit } from '../types';
+import { WorkoutHistory, HistorySession, normalizeExerciseName } from '../history';
+import { parseDurationToSeconds } from '../parser/exercise';
+import { getWeightIn } from '../units';
+import { estimateSetOneRepMax } from '../e1rm';
+import { isWarmupSet } from '../warmup';
+
+function numericParam(set: Exercise, key: string): number {
+	const param = set.params.find(p => p.key.toLowerCase() === key);
+	const value = param ? parseFloat(param.value) : NaN;
+	return isNaN(value) ? 0 : value;
+}
+
+function weightIn(set: Exercise, unit: WeightUnit): number {
+	const param = set.params.find(p => p.key.toLowerCase() === 'weight');
+	const value = param ? getWeightIn(param, unit) : NaN;
+	return isNaN(value) ? 0 : Math.round(value * 10) / 10;
+}
+
+function completedSets(session: HistorySession, exercise?: string): Exercise[] {
+	const target = exercise ? normalizeExerciseName(exercise) : null;
+	return session.workout.exercises.filter(set =>
+		set.state === 'completed' && !isWarmupSet(set) && (target === null || normalizeExerciseName(set.name) === target)
+	);
+}
+
+/**
+ * Value of the chosen metric for a single session, or null if the session doesn't count
+ */
+function sessionValue(session: HistorySession, options: StatsOptions, unit: WeightUnit, formula: E1rmFormula): number | null {
+	const sets = completedSets(session, options.exercise);
+	if (sets.length === 0) return null;
+
+	switch (options.metric) {
+		case 'top-set':
+			return Math.max(...sets.map(set => weightIn(set, unit)));
+		case 'e1rm': {
+			const estimates = sets
+				.map(set => estimateSetOneRepMax(set.params, formula, unit))
+				.filter((e1rm): e1rm is number => e1rm !== null);
+			return estimates.length > 0 ? Math.max(...estimates) : null;
+		}
+		case 'volume':
+			return sets.reduce((sum, set) => sum + weightIn(set, unit) * numericParam(set, 'reps'), 0);
+		case 'duration': {
+			// Minutes, one decimal (active time for paused workouts)
+			const seconds = parseDurationToSeconds(session.workout.metadata.activeDuration ?? session.workout.metadata.duration ?? '');
+			return Math.round(seconds / 6) / 10;
+		}
+		case 'sessions':
+			return 1;
+	}
+}
+
+/**
+ * Build the chart series for a workout-stats block, oldest first (weights in the given unit)
+ */
+export function buildStatsSeries(
+	history: WorkoutHistory,
+	options: StatsOptions,
+	unit: WeightUnit,
+	formula: E1rmFormula = 'epley'
+): StatsPoint[] {
+	const sessions = history.getSessions().filter(session =>
+		(!options.from || session.date >= options.from) && (!options.to || session.date <= options.to)
+	);
+
+	const points: StatsPoint[] = [];
+	const buckets = new Map<string, StatsPoint>();
+
+	for (const session of sessions) {
+		const value = sessionValue(session, options, unit, formula);
+		if (value === null) continue;
+
+		if (options.aggregation === 'session') {
+			points.push({ date: session.date, label: moment(session.date).format('MMM D'), value });
+			continue;
+		}
+
+		const start = moment(session.date).startOf(options.aggregation);
+		const key = start.format('YYYY-MM-DD');
+		const bucket = buckets.get(key);
+
+		if (!bucket) {
+			const label = options.aggregation === 'week' ? start.format('MMM D') : start.format('MMM YYYY');
+			const point = { date: key, label, value };
+			buckets.set(key, point);
+			points.push(point);
+		} else if (options.metric === 'top-set' || options.metric === 'e1rm') {
+			bucket.value = Math.max(bucket.value, value);
+		} else {
+			bucket.value = Math.round((bucket.value + value) * 10) / 10;
+		}
+	}
+
+	// Weeks/months without sessions count as zero rather than disappearing
+	if (options.metric === 'sessions' && options.aggregation !== 'session' && points.length > 1) {
+		return fillEmptyBuckets(points, options.aggregation);
+	}
+
+	return points;
+}
+
+function fillEmptyBuckets(points: StatsPoint[], unit: 'week' | 'month'): StatsPoint[] {
+	const byDate = new Map(points.map(p => [p.date, p]));
+	const filled: StatsPoint[] = [];
+	const last = points[points.length - 1]?.date ?? '';
+
+	for (let cursor = moment(points[0]?.date); cursor.format('YYYY-MM-DD') <= last; cursor.add(1, unit)) {
+		const key = cursor.format('YYYY-MM-DD');
+		const label = unit === 'week' ? cursor.format('MMM D') : cursor.format('MMM YYYY');
+		filled.push(byDate.get(key) ?? { date: key, label, value: 0 });
+	}
+
+	return filled;
+}
@@ -0,0 +1,49 @@
+import { ParsedWorkout, TimerState } from '../types';
+
+// A step a running workout takes by itself once its clock gets there
+export type AutoStep =
+	| { kind: 'rest-complete'; index: number }      // Rest countdown ran out
+	| { kind: 'exercise-finish'; index: number }    // Duration countdown ran out
+	| { kind: 'interval-advance'; slot: number }    // EMOM/Tabata clock moved to the next line
+	| { kind: 'interval-end' };                     // Last interval done or cap reached
+
+/**
+ * The step a running workout is due for, if any
+ */
+export function getDueStep(parsed: ParsedWorkout, activeIndex: number, state: TimerState): AutoStep | null {
+	if (parsed.metadata.state !== 'started') return null;
+
+	const interval = state.interval;
+	if (interval) {
+		if (interval.isOver) return { kind: 'interval-end' };
+		if (interval.slot > activeIndex) return { kind: 'interval-advance', slot: interval.slot };
+	}
+
+	if (state.isResting) {
+		return state.restRemaining !== undefined && state.restRemaining <= 0
+			? { kind: 'rest-complete', index: activeIndex }
+			: null;
+	}
+
+	const exercise = parsed.exercises[activeIndex];
+	if (exercise?.state === 'inProgress' && exercise.targetDuration !== undefined && state.exerciseElapsed >= exercise.targetDuration) {
+		return { kind: 'exercise-finish', index: activeIndex };
+	}
+
+	return null;
+}
+
+/**
+ * Identifies a step so it's only taken once, e.g. "rest-complete:3"
+ */
+export function getStepKey(step: AutoStep): string {
+	switch (step.kind) {
+		case 'rest-complete':
+		case 'exercise-finish':
+			return `${step.kind}:${step.index}`;
+		case 'interval-advance':
+			return `${step.kind}:${step.slot}`;
+		case 'interval-end':
+			return step.kind;
+	}
+}
@@ -0,0 +1,120 @@
+import { Platform } from 'obsidian';
+import { WorkoutLogSettings } from '../types';
+
+// Which countdown a cue belongs to, each can be turned off in settings
+export type CueKind = 'rest' | 'countdown' | 'interval';
+
+// Seconds left that get a short beep, zero gets a long one
+const COUNTDOWN_SECONDS = 3;
+
+const SHORT_BEEP = { frequency: 880, duration: 0.12, vibration: [80] };
+const LONG_BEEP = { frequency: 1320, duration: 0.45, vibration: [200, 100, 200] };
+
+/**
+ * Synthesized beeps (Web Audio) and vibration for the last seconds of rests, countdowns and intervals.
+ * Driven by the plugin's timer subscription, each cue is played once per workout even if ticks repeat.
+ */
+export class CuePlayer {
+	private settings: WorkoutLogSettings;
+	private audioContext: AudioContext | null = null;
+	// Last cue played per workout, e.g. "rest:2:3"
+	private lastCountdown: Map<string, string> = new Map();
+	private lastTransition: Map<string, string> = new Map();
+
+	constructor(settings: WorkoutLogSettings) {
+		this.settings = settings;
+	}
+
+	updateSettings(settings: WorkoutLogSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Beep at 3, 2, 1 seconds left and a long beep at zero
+	 * @param id Identifies the countdown within the workout, e.g. "rest:2" for the rest after line 2
+	 */
+	countdown(workoutId: string, kind: CueKind, id: string, remaining: number): void {
+		const seconds = Math.max(0, remaining);
+		if (seconds > COUNTDOWN_SECONDS) return;
+
+		const cue = `${id}:${seconds}`;
+		if (this.lastCountdown.get(workoutId) === cue) return;
+		this.lastCountdown.set(workoutId, cue);
+
+		this.play(kind, seconds === 0 ? LONG_BEEP : SHORT_BEEP);
+	}
+
+	/**
+	 * Long beep when a phase starts (e.g. the work part of the next interval)
+	 */
+	transition(workoutId: string, kind: CueKind, id: string): void {
+		if (this.lastTransition.get(workoutId) === id) return;
+		this.lastTransition.set(workoutId, id);
+
+		this.play(kind, LONG_BEEP);
+	}
+
+	// Forget a finished workout, so its next session cues from the start
+	clear(workoutId: string): void {
+		this.lastCountdown.delete(workoutId);
+		this.lastTransition.delete(workoutId);
+	}
+
+	destroy(): void {
+		this.audioContext?.close();
+		this.audioContext = null;
+	}
+
+	private isEnabled(kind: CueKind): boolean {
+		switch (kind) {
+			case 'rest':
+				return this.settings.cueRest;
+			case 'countdown':
+				return this.settings.cueCountdown;
+			case 'interval':
+				return this.settings.cueInterval;
+		}
+	}
+
+	private play(kind: CueKind, sound: typeof SHORT_BEEP): void {
+		if (!this.isEnabled(kind)) return;
+
+		this.beep(sound.frequency, sound.duration);
+
+		if (this.settings.cueVibrate && Platform.isMobile && typeof navigator.vibrate === 'function') {
+			navigator.vibrate(sound.vibration);
+		}
+	}
+
+	private beep(frequency: number, duration: number): void {
+		const volume = this.settings.cueVolume / 100;
+		if (volume <= 0) return;
+
+		try {
+			if (!this.audioContext) {
+				this.audioContext = new AudioContext();
+			}
+			const context = this.audioContext;
+			// Contexts created before any user gesture start suspended
+			if (context.state === 'suspended') {
+				void context.resume();
+			}
+
+			const oscillator = context.createOscillator();
+			const gain = context.createGain();
+			const start = context.currentTime;
+			oscillator.type = 'sine';
+			oscillator.frequency.setValueAtTime(frequency, start);
+			// Fade out so the tone doesn't end with a click
+			gain.gain.setValueAtTime(volume, start);
+			gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+
+			oscillator.connect(gain);
+			gain.connect(context.destination);
+			oscillator.start(start);
+			oscillator.stop(start + duration);
+		} catch (error) {
+			console.warn('[Workout Log] Could not play cue:', error);
+		}
+	}
+}
@@ -1,15 +1,60 @@
-import { TimerInstance, TimerState, TimerCallback } from '../types';
+import { TimerInstance, TimerState, TimerCallback, PersistedTimer, IntervalTimer, PauseInterval } from '../types';
+import { getIntervalState } from '../interval';
 
 export class TimerManager {
 	private timers: Map<string, TimerInstance> = new Map();
 	private intervalId: number | null = null;
 	private onAutoAdvance: ((workoutId: string) => void) | null = null;
+	private onPersist: ((workoutId: string, snapshot: PersistedTimer | null) => void) | null = null;
+	private globalCallbacks: Set<(workoutId: string, state: TimerState | null) => void> = new Set();
 
 	setAutoAdvanceCallback(callback: (workoutId: string) => void): void {
 		this.onAutoAdvance = callback;
 	}
 
-	startWorkoutTimer(workoutId: string, activeExerciseIndex: number = 0): void {
+	// Called whenever a timer changes state (not on every tick), null snapshot = timer stopped
+	setPersistCallback(callback: (workoutId: string, snapshot: PersistedTimer | null) => void): void {
+		this.onPersist = callback;
+	}
+
+	// Rehydrate a timer saved before a reload, keeping its original timestamps
+	restoreTimer(snapshot: PersistedTimer): void {
+		if (this.timers.has(snapshot.workoutId)) return;
+
+		this.timers.set(snapshot.workoutId, {
+			...snapshot,
+			pauses: snapshot.pauses ?? [],  // Snapshots from before workout pauses existed
+			callbacks: new Set()
+		});
+
+		this.ensureInterval();
+	}
+
+	// Move a timer to a new workout ID (its note was renamed), keeping its clocks and subscribers
+	renameTimer(workoutId: string, newWorkoutId: string): void {
+		const timer = this.timers.get(workoutId);
+		if (!timer || this.timers.has(newWorkoutId)) return;
+
+		this.timers.delete(workoutId);
+		this.timers.set(newWorkoutId, { ...timer, workoutId: newWorkoutId });
+		this.persist(workoutId);
+		this.persist(newWorkoutId);
+		for (const callback of this.globalCallbacks) {
+			callback(workoutId, null);
+		}
+		this.notify(newWorkoutId);
+	}
+
+	getSnapshot(workoutId: string): PersistedTimer | null {
+		const timer = this.timers.get(workoutId);
+		if (!timer) return null;
+
+		const { callbacks, ...snapshot } = timer;
+		return snapshot;
+	}
+
+	// Interval blocks pass their clock, which runs from the workout start
+	startWorkoutTimer(workoutId: string, activeExerciseIndex: number = 0, interval?: IntervalTimer): void {
 		const now = Date.now();
 
 		const existing = this.timers.get(workoutId);
@@ -18,10 +63,12 @@ export class TimerManager {
 			existing.exerciseStartTime = now;
 			existing.exercisePausedTime = 0;
 			existing.isPaused = false;
+			existing.pauses = [];
 			existing.activeExerciseIndex = activeExerciseIndex;
 			existing.isResting = false;
 			existing.restStartTime = 0;
 			existing.restDuration = undefined;
+			existing.interval = interval;
 		} else {
 			this.timers.set(workoutId, {
 				workoutId,
@@ -29,14 +76,18 @@ export class TimerManager {
 				exerciseStartTime: now,
 				exercisePausedTime: 0,
 				isPaused: false,
+				pauses: [],
 				activeExerciseIndex,
 				isResting: false,
 				restStartTime: 0,
+				interval,
 				callbacks: new Set()
 			});
 		}
 
 		this.ensureInterval();
+		this.persist(workoutId);
+		this.notify(workoutId);
 	}
 
 	advanceExercise(workoutId: string, newExerciseIndex: number): void {
@@ -50,6 +101,7 @@ export class TimerManager {
 		timer.isResting = false;
 		timer.restStartTime = 0;
 		timer.restDuration = undefined;
+		this.persist(workoutId);
 	}
 
 	startRest(workoutId: string, restDuration: number): void {
@@ -59,6 +111,7 @@ export class TimerManager {
 		timer.isResting = true;
 		timer.restStartTime = Date.now();
 		timer.restDuration = restDuration;
+		this.persist(workoutId);
 	}
 
 	endRest(workoutId: string): void {
@@ -68,6 +121,32 @@ export class TimerManager {
 		timer.isResting = false;
 		timer.restStartTime = 0;
 		timer.restDuration = undefined;
+		this.persist(workoutId);
+	}
+
+	// Lengthen or shorten the running rest, shortening past the time rested ends it.
+	// An open-ended rest gets a countdown again, starting from now.
+	adjustRest(workoutId: string, seconds: number): void {
+		const timer = this.timers.get(workoutId);
+		if (!timer || !timer.isResting) return;
+
+		if (timer.restDuration === undefined) {
+			if (seconds <= 0) return;
+			timer.restDuration = this.getTimerState(workoutId)?.restElapsed ?? 0;
+		}
+		timer.restDuration = Math.max(0, timer.restDuration + seconds);
+		this.persist(workoutId);
+		this.notify(workoutId);
+	}
+
+	// Drop the rest countdown, the rest then runs until it is ended by hand
+	extendRest(workoutId: string): void {
+		const timer = this.timers.get(workoutId);
+		if (!timer || !timer.isResting) return;
+
+		timer.restDuration = undefined;
+		this.persist(workoutId);
+		this.notify(workoutId);
 	}
 
 	isResting(workoutId: string): boolean {
@@ -77,24 +156,69 @@ export class TimerManager {
 
 	pauseExercise(workoutId: string): void {
 		const timer = this.timers.get(workoutId);
-		if (!timer || timer.isPaused) return;
+		if (!timer || timer.isPaused || this.isWorkoutPaused(workoutId)) return;
 
 		timer.isPaused = true;
 		// Store how much time has passed for this exercise
 		const now = Date.now();
 		timer.exercisePausedTime += now - timer.exerciseStartTime;
+		this.persist(workoutId);
 	}
 
 	resumeExercise(workoutId: string): void {
 		const timer = this.timers.get(workoutId);
-		if (!timer || !timer.isPaused) return;
+		if (!timer || !timer.isPaused || this.isWorkoutPaused(workoutId)) return;
 
 		timer.isPaused = false;
 		timer.exerciseStartTime = Date.now();
+		this.persist(workoutId);
+	}
+
+	// Freeze every clock of the workout (total, exercise, rest and interval)
+	pauseWorkout(workoutId: string): void {
+		const timer = this.timers.get(workoutId);
+		if (!timer || this.isWorkoutPaused(workoutId)) return;
+
+		timer.pauses.push({ start: Date.now() });
+		this.persist(workoutId);
+		this.notify(workoutId);
+	}
+
+	resumeWorkout(workoutId: string): void {
+		const timer = this.timers.get(workoutId);
+		const pause = timer?.pauses[timer.pauses.length - 1];
+		if (!timer || !pause || pause.end !== undefined) return;
+
+		const now = Date.now();
+		pause.end = now;
+		// Move the exercise and rest clocks past the pause. Ones started during the pause start now.
+		const shift = (start: number) => start + now - Math.max(pause.start, start);
+		timer.exerciseStartTime = shift(timer.exerciseStartTime);
+		if (timer.restStartTime > 0) {
+			timer.restStartTime = shift(timer.restStartTime);
+		}
+		this.persist(workoutId);
+		this.notify(workoutId);
+	}
+
+	isWorkoutPaused(workoutId: string): boolean {
+		const timer = this.timers.get(workoutId);
+		const pause = timer?.pauses[timer.pauses.length - 1];
+		return pause !== undefined && pause.end === undefined;
+	}
+
+	// Workout pauses so far, an ongoing one ends now
+	getPauses(workoutId: string): PauseInterval[] {
+		const now = Date.now();
+		return (this.timers.get(workoutId)?.pauses ?? []).map(pause => ({ start: pause.start, end: pause.end ?? now }));
 	}
 
 	stopWorkoutTimer(workoutId: string): void {
 		this.timers.delete(workoutId);
+		this.persist(workoutId);
+		for (const callback of this.globalCallbacks) {
+			callback(workoutId, null);
+		}
 
 		if (this.timers.size === 0 && this.intervalId !== null) {
 			window.clearInterval(this.intervalId);
@@ -122,21 +246,39 @@ export class TimerManager {
 		};
 	}
 
+	// Every tick and change of any timer, with a null state when a timer stops (e.g. for UI outside the block)
+	subscribeAll(callback: (workoutId: string, state: TimerState | null) => void): () => void {
+		this.globalCallbacks.add(callback);
+		return () => {
+			this.globalCallbacks.delete(callback);
+		};
+	}
+
+	// Running workouts, oldest first
+	getRunningWorkoutIds(): string[] {
+		return Array.from(this.timers.keys());
+	}
+
 	getTimerState(workoutId: string): TimerState | null {
 		const timer = this.timers.get(workoutId);
 		if (!timer) return null;
 
-		const now = Date.now();
+		// While the workout is paused every clock stands still at the pause start
+		const wallNow = Date.now();
+		const openPause = timer.pauses.find(pause => pause.end === undefined);
+		const now = openPause ? openPause.start : wallNow;
 
-		// Total workout elapsed (always running, no pause)
-		const workoutElapsed = Math.floor((now - timer.workoutStartTime) / 1000);
+		// Total workout elapsed, without workout pauses
+		const pausedTime = timer.pauses.reduce((sum, pause) => sum + (pause.end !== undefined ? pause.end - pause.start : 0), 0);
+		const workoutElapsed = Math.floor((now - timer.workoutStartTime - pausedTime) / 1000);
+		const wallElapsed = Math.floor((wallNow - timer.workoutStartTime) / 1000);
 
-		// Exercise elapsed (respects pause)
+		// Exercise elapsed (respects pause, exercises started during a workout pause haven't begun yet)
 		let exerciseElapsed: number;
 		if (timer.isPaused) {
 			exerciseElapsed = Math.floor(timer.exercisePausedTime / 1000);
 		} else {
-			const currentExerciseTime = now - timer.exerciseStartTime;
+			const currentExerciseTime = Math.max(0, now - timer.exerciseStartTime);
 			exerciseElapsed = Math.floor((timer.exercisePausedTime + currentExerciseTime) / 1000);
 		}
 
@@ -144,7 +286,7 @@ export class TimerManager {
 		let restElapsed: number | undefined;
 		let restRemaining: number | undefined;
 		if (timer.isResting && timer.restStartTime > 0) {
-			const restTime = now - timer.restStartTime;
+			const restTime = Math.max(0, now - timer.restStartTime);
 			restElapsed = Math.floor(restTime / 1000);
 			if (timer.restDuration !== undefined) {
 				restRemaining = Math.max(0, timer.restDuration - restElapsed);
@@ -153,11 +295,14 @@ export class TimerManager {
 
 		return {
 			workoutElapsed,
+			wallElapsed,
+			isWorkoutPaused: openPause !== undefined,
 			exerciseElapsed,
 			isOvertime: false,  // Calculated by caller with target duration
 			isResting: timer.isResting,
 			restElapsed,
-			restRemaining
+			restRemaining,
+			interval: timer.interval ? getIntervalState(timer.interval, workoutElapsed) : undefined
 		};
 	}
 
@@ -176,6 +321,7 @@ export class TimerManager {
 			timer.exerciseStartTime = Date.now();
 			timer.exercisePausedTime = 0;
 			timer.isPaused = false;
+			this.persist(workoutId);
 		}
 	}
 
@@ -188,6 +334,10 @@ export class TimerManager {
 		return timer?.isPaused ?? false;
 	}
 
+	private persist(workoutId: string): void {
+		this.onPersist?.(workoutId, this.getSnapshot(workoutId));
+	}
+
 	private ensureInterval(): void {
 		if (this.intervalId !== null) return;
 
@@ -197,13 +347,22 @@ export class TimerManager {
 	}
 
 	private tick(): void {
-		for (const [workoutId, timer] of this.timers) {
-			const state = this.getTimerState(workoutId);
-			if (!state) continue;
+		for (const workoutId of this.timers.keys()) {
+			this.notify(workoutId);
+		}
+	}
 
-			for (const callback of timer.callbacks) {
-				callback(state);
-			}
+	// Push the current state to subscribers right away (e.g. after the rest was adjusted)
+	private notify(workoutId: string): void {
+		const timer = this.timers.get(workoutId);
+		const state = this.getTimerState(workoutId);
+		if (!timer || !state) return;
+
+		for (const callback of timer.callbacks) {
+			callback(state);
+		}
+		for (const callback of this.globalCallbacks) {
+			callback(workoutId, state);
 		}
 	}
 
@@ -219,12 +378,13 @@ export class TimerManager {
 		}
 	}
 
-	// Cleanup all timers
+	// Cleanup all timers (in memory only - persisted snapshots are kept for the next load)
 	destroy(): void {
 		if (this.intervalId !== null) {
 			window.clearInterval(this.intervalId);
 			this.intervalId = null;
 		}
 		this.timers.clear();
+		this.globalCallbacks.clear();
 	}
 }
@@ -7,15 +7,40 @@ export type WorkoutState = 'planned' | 'started' | 'completed';
 // [ ] = pending, [\] = inProgress, [x] = completed, [-] = skipped
 export type ExerciseState = 'pending' | 'inProgress' | 'completed' | 'skipped';
 
+// Personal record kinds detected when a workout is logged
+export type RecordType = 'weight' | 'reps' | 'e1rm' | 'duration' | 'volume';
+
+// Weight units recognised after a value (kg, lb/lbs)
+export type WeightUnit = 'kg' | 'lb';
+
+// Rate of perceived exertion or reps in reserve
+export type EffortScale = 'rpe' | 'rir';
+
+// Estimated one-rep max formula
+export type E1rmFormula = 'epley' | 'brzycki';
+
+// Block-level interval timer modes (the exercise lines make up one round)
+export type IntervalMode = 'emom' | 'amrap' | 'tabata' | 'fortime';
+
+// Which params drive double progression, e.g. "Progression: Reps > Weight"
+export interface ProgressionRoles {
+	primary?: string;      // Param key that always progresses and wraps at its max
+	secondary: string[];   // Param keys that only progress when the primary wraps
+}
+
 // Key-value pairs for exercise parameters
 export interface ExerciseParam {
 	key: string;
 	value: string;
 	editable: boolean;  // true if wrapped in [brackets]
 	unit?: string;
+	weightUnit?: WeightUnit;  // Normalized unit when `unit` is a known weight unit
+	effort?: EffortScale;  // Set for RPE/RIR params
+	error?: string;  // Validation message when the value is out of range for its scale
 	progressionFormula?: string;  // Optional formula like "w+2" or "((w/r)^2)"
 	initialValue?: string;  // Initial value to reset to when max is reached
 	maxValue?: string;  // Maximum value before resetting to initial
+	targetValue?: string;  // Planned value when the user logged a different one during the workout (written as "7/8")
 }
 
 // Parsed metadata from the workout block header
@@ -24,7 +49,17 @@ export interface WorkoutMetadata {
 	state: WorkoutState;
 	startDate?: string;   // ISO format or human readable
 	duration?: string;    // e.g., "11m 33s"
+	activeDuration?: string;  // Duration without workout pauses (only written when the workout was paused)
+	pauses?: string;      // Workout pause intervals by clock time, e.g. "14:05-14:12, 14:40-14:41"
 	restDuration?: number; // Default rest duration in seconds
+	program?: string;      // Program day this block was generated from, e.g. "Programs/Strength.md#W2D1"
+	mode?: IntervalMode;   // Interval timer that drives the block
+	interval?: number;     // EMOM interval length in seconds
+	work?: number;         // Tabata work seconds per interval
+	rest?: number;         // Tabata rest seconds per interval
+	rounds?: number;       // Rounds through the exercise lines (EMOM, Tabata, for time)
+	cap?: number;          // Time cap in seconds (AMRAP, for time)
+	result?: string;       // Rounds and reps (or time) achieved, written when an interval block is logged
 }
 
 // Single exercise entry
@@ -35,6 +70,12 @@ export interface Exercise {
 	targetDuration?: number;     // Target duration in seconds (for countdown)
 	recordedDuration?: string;   // Recorded duration after completion
 	restAfter?: number;          // Rest duration in seconds after this exercise (optional)
+	restTaken?: number;          // Rest actually taken after this set in seconds (written as "Rested: 2m 10s")
+	group?: string;              // Superset/circuit label (e.g., "A"), consecutive lines with the same label alternate
+	progression?: ProgressionRoles;  // Explicit progression roles (inferred from the params when missing)
+	warmup?: string;             // Warm-up scheme to generate before this exercise ("auto" = default), "set" on generated warm-up rows
+	round?: number;              // Round of an interval block this line belongs to (set while it runs and in logs)
+	records?: RecordType[];      // Personal records set by this set (only in logged blocks)
 	lineIndex: number;           // Line index relative to exercise section start
 }
 
@@ -53,22 +94,58 @@ export interface TimerInstance {
 	exerciseStartTime: number;   // Timestamp when current exercise started
 	exercisePausedTime: number;  // Accumulated paused time for current exercise
 	isPaused: boolean;
+	pauses: PauseInterval[];     // Workout pauses, the last one is open while the workout is paused
 	activeExerciseIndex: number;
 	isResting: boolean;          // True if currently in rest period
 	restStartTime: number;       // Timestamp when rest started
 	restDuration?: number;       // Target rest duration in seconds
+	interval?: IntervalTimer;    // Interval block clock, counted from the workout start
 	callbacks: Set<TimerCallback>;
 }
 
+// Clock of an interval block
+export interface IntervalTimer {
+	mode: IntervalMode;
+	length?: number;      // Seconds per interval (EMOM, Tabata), the clock moves through the lines
+	work?: number;        // Work part of each interval (Tabata), the rest is the remainder
+	intervals?: number;   // Number of intervals (EMOM, Tabata)
+	movements: number;    // Exercise lines per round
+	cap?: number;         // Time cap in seconds
+}
+
+// Interval clock state passed to UI
+export interface IntervalState {
+	mode: IntervalMode;
+	slot: number;              // Line index the clock is on (EMOM, Tabata), -1 when lines are worked through manually
+	round?: number;            // Current round (EMOM, Tabata)
+	rounds?: number;           // Total rounds (EMOM, Tabata)
+	phase: 'work' | 'rest';
+	phaseRemaining?: number;   // Seconds left in the current interval or phase
+	capRemaining?: number;     // Seconds left before the cap (or the end of the last interval)
+	isOver: boolean;           // All intervals done or cap reached
+}
+
+// Workout pause, end is unset while it lasts
+export interface PauseInterval {
+	start: number;
+	end?: number;
+}
+
+// Timer instance as stored in plugin data (survives reloads)
+export type PersistedTimer = Omit<TimerInstance, 'callbacks'>;
+
 // Timer state passed to UI
 export interface TimerState {
-	workoutElapsed: number;      // Total workout elapsed seconds
+	workoutElapsed: number;      // Active workout seconds (workout pauses left out)
+	wallElapsed: number;         // Seconds since the workout started, pauses included
+	isWorkoutPaused: boolean;    // Whole workout paused, every clock is frozen
 	exerciseElapsed: number;     // Current exercise elapsed seconds
 	remaining?: number;          // Seconds remaining (countdown mode)
 	isOvertime: boolean;         // True if countdown exceeded
 	isResting: boolean;          // True if in rest period
 	restElapsed?: number;        // Rest elapsed seconds
 	restRemaining?: number;      // Rest seconds remaining
+	interval?: IntervalState;    // Set for interval blocks
 }
 
 export type TimerCallback = (state: TimerState) => void;
@@ -85,12 +162,23 @@ export interface WorkoutCallbacks {
 	onRestSkip: (exerciseIndex: number) => Promise<void>;
 	onParamChange: (exerciseIndex: number, paramKey: string, newValue: string) => void;
 	onFlushChanges: () => Promise<void>;
+	onPreviewProgression: () => void;
 	onPauseExercise: () => void;
 	onResumeExercise: () => void;
+	onPauseWorkout: () => void;
+	onResumeWorkout: () => void;
+	onAdjustRest: (seconds: number) => void;  // Lengthen (or shorten, when negative) the running rest
+	onExtendRest: () => void;  // Keep resting until the rest is ended by hand
 	onAddSample: () => Promise<void>;
+	onIntervalAdvance: (slot: number) => Promise<void>;  // Interval clock moved to the line at slot
+	onIntervalEnd: () => Promise<void>;  // Last interval done or cap reached
+	onOpenSession: () => void;  // Show the workout in the full-screen session view
 	getSectionInfo: () => SectionInfo | null;  // Function to get fresh sectionInfo
 }
 
+// What the status bar, panel and commands can do to a running workout
+export type WorkoutAction = 'finish-exercise' | 'add-set' | 'skip-exercise' | 'skip-rest' | 'toggle-pause' | 'finish-workout';
+
 // Context passed to renderer
 export interface RenderContext {
 	el: HTMLElement;
@@ -120,4 +208,75 @@ export type LogGrouping = 'daily' | 'weekly';
 export interface WorkoutLogSettings {
 	logFolder: string;           // Folder path where workout logs are stored
 	logGrouping: LogGrouping;    // How to group logs (daily or weekly)
+	weightUnit: WeightUnit;      // Preferred unit for comparisons, charts and conversion
+	barWeightKg: number;         // Barbell weight used by the plate calculator
+	barWeightLb: number;
+	platesKg: string;            // Plate inventory, e.g. "25, 20, 15x2" (weight, optional pairs)
+	platesLb: string;
+	deloadAfterMisses: number;   // Consecutive missed sessions before a deload (0 = never)
+	deloadPercent: number;       // Weight reduction applied on deload
+	trainingMaxes: string;       // Per-exercise training max in the preferred unit, one "Name: value" per line
+	e1rmFormula: E1rmFormula;    // Used for e1RM records, history, charts and the e1rm formula variable
+	showE1rm: boolean;           // Show the e1RM of the current set next to it
+	recordRest: boolean;         // Write the rest actually taken next to each set
+	showMiniTimer: boolean;      // Floating timer panel while a workout runs in another note
+	warmupSchemes: string;       // One "name: bar x 10, 40% x 5, ..." per line, the first is used by "Warmup: auto"
+	cueRest: boolean;            // Beep at the end of rest periods
+	cueCountdown: boolean;       // Beep at the end of countdown durations
+	cueInterval: boolean;        // Beep at interval block phase changes and caps
+	cueVibrate: boolean;         // Also vibrate on mobile where supported
+	cueVolume: number;           // Beep volume, 0-100
+}
+
+// Everything stored via Plugin.saveData: settings plus running timers
+export interface WorkoutLogData extends WorkoutLogSettings {
+	activeTimers?: Record<string, PersistedTimer>;  // Keyed by workout ID
+}
+
+// workout-stats code block
+export type StatsMetric = 'top-set' | 'e1rm' | 'volume' | 'duration' | 'sessions';
+export type StatsAggregation = 'session' | 'week' | 'month';
+
+export interface StatsOptions {
+	exercise?: string;             // Exercise name (required for top-set, optional filter otherwise)
+	metric: StatsMetric;
+	aggregation: StatsAggregation;
+	from?: string;                 // YYYY-MM-DD, inclusive
+	to?: string;                   // YYYY-MM-DD, inclusive
+	title?: string;
+	errors: string[];              // Problems found while parsing the block
+}
+
+// One point on a stats chart
+export interface StatsPoint {
+	date: string;                  // YYYY-MM-DD (start of the bucket)
+	label: string;                 // Axis label for the bucket
+	value: number;
+}
+
+// Per-week modifiers of a program
+export interface ProgramWeek {
+	number: number;
+	label?: string;              // Free text, e.g. "Accumulation"
+	intensity: number;           // Percentage applied to weights (100 = as written)
+	volume: number;              // Percentage applied to the number of sets (100 = as written)
+	deload: boolean;
+}
+
+// One training day of a program, with exercises as written for 100% intensity/volume
+export interface ProgramDay {
+	number: number;
+	name: string;
+	exercises: Exercise[];
+}
+
+// Multi-week program described in a ```workout-program block
+export interface WorkoutProgram {
+	title?: string;
+	week: number;                // Pointer: next week to train (1-based)
+	day: number;                 // Pointer: next day to train (1-based)
+	restDuration?: number;       // Passed on to generated blocks
+	weeks: ProgramWeek[];
+	days: ProgramDay[];
+	errors: string[];
 }
@@ -0,0 +1,127 @@
+import { setIcon } from 'obsidian';
+import WorkoutLogPlugin from '../main';
+import { TimerManager } from '../timer/manager';
+import { TimerState, WorkoutAction } from '../types';
+import { updateExerciseTimer, updateHeaderTimer } from '../renderer';
+import { findNextPending } from '../groups';
+
+// One copy of the controls, in the status bar or the floating panel
+interface IndicatorElements {
+	nameEl: HTMLElement;
+	timerEl: HTMLElement;
+	totalEl: HTMLElement;
+	finishBtn: HTMLElement;
+	skipBtn: HTMLElement;
+	skipRestBtn: HTMLElement;
+}
+
+/**
+ * Running workout outside its note: a status bar item and an optional floating panel with the
+ * current exercise, its timer, the total time and finish/skip controls. Clicking the name opens the note.
+ * Only the workout started first is shown when several are running.
+ */
+export class ActiveWorkoutIndicator {
+	private statusBar: IndicatorElements;
+	private statusBarEl: HTMLElement;
+	private panel: IndicatorElements;
+	private panelEl: HTMLElement;
+	private workoutId: string | null = null;
+	private unsubscribe: () => void;
+
+	constructor(private plugin: WorkoutLogPlugin, private timerManager: TimerManager) {
+		this.statusBarEl = plugin.addStatusBarItem();
+		this.statusBarEl.addClass('workout-status-bar');
+		this.statusBar = this.createElements(this.statusBarEl, 'workout-status-bar');
+
+		this.panelEl = document.body.createDiv({ cls: 'workout-mini-panel' });
+		this.panel = this.createElements(this.panelEl, 'workout-mini-panel');
+
+		this.unsubscribe = timerManager.subscribeAll(() => this.refresh());
+		this.refresh();
+	}
+
+	/**
+	 * Redraw for the first running workout (also after the active note or settings change)
+	 */
+	refresh(): void {
+		const workoutId = this.timerManager.getRunningWorkoutIds()[0] ?? null;
+		const state = workoutId ? this.timerManager.getTimerState(workoutId) : null;
+		this.workoutId = workoutId;
+
+		if (!workoutId || !state) {
+			this.statusBarEl.toggle(false);
+			this.panelEl.toggle(false);
+			return;
+		}
+
+		const isNoteActive = this.plugin.app.workspace.getActiveFile()?.path === this.plugin.getWorkoutPath(workoutId);
+		this.statusBarEl.toggle(true);
+		this.panelEl.toggle(this.plugin.settings.showMiniTimer && !isNoteActive);
+
+		this.update(this.statusBar, workoutId, state);
+		this.update(this.panel, workoutId, state);
+	}
+
+	destroy(): void {
+		this.unsubscribe();
+		this.statusBarEl.remove();
+		this.panelEl.remove();
+	}
+
+	private createElements(container: HTMLElement, cls: string): IndicatorElements {
+		const nameEl = container.createSpan({ cls: `${cls}-name` });
+		nameEl.setAttribute('aria-label', 'Open workout note');
+		nameEl.addEventListener('click', () => {
+			if (this.workoutId) this.plugin.openWorkoutNote(this.workoutId);
+		});
+
+		const timersEl = container.createSpan({ cls: `${cls}-timers` });
+		const timerEl = timersEl.createSpan({ cls: `${cls}-timer` });
+		const totalEl = timersEl.createSpan({ cls: `${cls}-total` });
+
+		const actionsEl = container.createSpan({ cls: `${cls}-actions` });
+		const finishBtn = this.createButton(actionsEl, 'check', 'Finish exercise', 'finish-exercise');
+		const skipBtn = this.createButton(actionsEl, 'skip-forward', 'Skip exercise', 'skip-exercise');
+		const skipRestBtn = this.createButton(actionsEl, 'fast-forward', 'Skip rest', 'skip-rest');
+
+		return { nameEl, timerEl, totalEl, finishBtn, skipBtn, skipRestBtn };
+	}
+
+	private createButton(container: HTMLElement, icon: string, label: string, action: WorkoutAction): HTMLElement {
+		const button = container.createEl('button', { cls: 'workout-mini-btn clickable-icon' });
+		setIcon(button, icon);
+		button.setAttribute('aria-label', label);
+		button.addEventListener('click', () => {
+			if (this.workoutId) this.plugin.runWorkoutAction(this.workoutId, action);
+		});
+		return button;
+	}
+
+	private update(elements: IndicatorElements, workoutId: string, state: TimerState): void {
+		const parsed = this.plugin.getKnownWorkout(workoutId);
+		if (!parsed) this.load(workoutId);
+
+		const activeIndex = this.timerManager.getActiveExerciseIndex(workoutId);
+		const exercise = parsed?.exercises[activeIndex];
+
+		// While resting, the line after the rest is what comes next
+		const next = state.isResting && parsed ? parsed.exercises[findNextPending(parsed.exercises, activeIndex)] : undefined;
+		const name = state.isResting ? (next ? `Next: ${next.name}` : 'Rest') : exercise?.name;
+		elements.nameEl.setText(name ?? parsed?.metadata.title ?? 'Workout');
+
+		updateExerciseTimer(elements.timerEl, state, exercise?.targetDuration, state.isResting);
+		updateHeaderTimer(elements.totalEl, state);
+
+		const canAct = !state.isWorkoutPaused;
+		elements.finishBtn.toggle(canAct && !state.isResting);
+		elements.skipBtn.toggle(canAct && !state.isResting);
+		elements.skipRestBtn.toggle(canAct && state.isResting);
+	}
+
+	// Read a workout that hasn't been rendered since the plugin loaded (e.g. restored after a restart)
+	private async load(workoutId: string): Promise<void> {
+		await this.plugin.loadKnownWorkout(workoutId);
+		// Already being read or unreadable: the next tick tries again
+		if (this.plugin.getKnownWorkout(workoutId)) this.refresh();
+	}
+}
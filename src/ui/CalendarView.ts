@@ -0,0 +1,261 @@
+import { ItemView, WorkspaceLeaf, moment } from 'obsidian';
+import { WorkoutHistory, HistorySession } from '../history';
+import { WeightUnit } from '../types';
+import { CalendarDay, CalendarMetric, getCalendarDays, getStreaks } from '../stats/calendar';
+
+export const VIEW_TYPE_WORKOUT_CALENDAR = 'workout-log-calendar';
+
+type CalendarMode = 'year' | 'month';
+
+// Number of color steps above "no workout"
+const HEAT_LEVELS = 4;
+
+export class WorkoutCalendarView extends ItemView {
+	private mode: CalendarMode = 'year';
+	private metric: CalendarMetric = 'duration';
+	private cursor = moment();  // Any date inside the displayed year/month
+	private selectedDate: string | null = null;
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, private history: WorkoutHistory, private getWeightUnit: () => WeightUnit) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_WORKOUT_CALENDAR;
+	}
+
+	getDisplayText(): string {
+		return 'Training calendar';
+	}
+
+	getIcon(): string {
+		return 'calendar-days';
+	}
+
+	async onOpen(): Promise<void> {
+		this.unsubscribe = this.history.onChange(() => this.render());
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+	}
+
+	private render(): void {
+		const root = this.contentEl;
+		root.empty();
+		root.addClass('workout-calendar');
+
+		const days = getCalendarDays(this.history, this.metric, this.getWeightUnit());
+
+		this.renderToolbar(root);
+		this.renderStreaks(root, Array.from(days.keys()));
+
+		if (this.mode === 'year') {
+			this.renderYear(root, days);
+		} else {
+			this.renderMonth(root, days);
+		}
+
+		this.renderLegend(root);
+		this.renderSelectedDay(root, days);
+	}
+
+	private renderToolbar(root: HTMLElement): void {
+		const toolbar = root.createDiv({ cls: 'workout-calendar-toolbar' });
+
+		const nav = toolbar.createDiv({ cls: 'workout-calendar-nav' });
+		const prevBtn = nav.createEl('button', { cls: 'workout-btn', text: '‹' });
+		nav.createSpan({
+			cls: 'workout-calendar-period',
+			text: this.mode === 'year' ? this.cursor.format('YYYY') : this.cursor.format('MMMM YYYY')
+		});
+		const nextBtn = nav.createEl('button', { cls: 'workout-btn', text: '›' });
+		const todayBtn = nav.createEl('button', { cls: 'workout-btn', text: 'Today' });
+
+		prevBtn.addEventListener('click', () => {
+			this.cursor.subtract(1, this.mode);
+			this.render();
+		});
+		nextBtn.addEventListener('click', () => {
+			this.cursor.add(1, this.mode);
+			this.render();
+		});
+		todayBtn.addEventListener('click', () => {
+			this.cursor = moment();
+			this.render();
+		});
+
+		const options = toolbar.createDiv({ cls: 'workout-calendar-options' });
+
+		const modeSelect = options.createEl('select', { cls: 'dropdown' });
+		modeSelect.createEl('option', { value: 'year', text: 'Year' });
+		modeSelect.createEl('option', { value: 'month', text: 'Month' });
+		modeSelect.value = this.mode;
+		modeSelect.addEventListener('change', () => {
+			this.mode = modeSelect.value as CalendarMode;
+			this.render();
+		});
+
+		const metricSelect = options.createEl('select', { cls: 'dropdown' });
+		metricSelect.createEl('option', { value: 'duration', text: 'Duration' });
+		metricSelect.createEl('option', { value: 'volume', text: 'Volume' });
+		metricSelect.value = this.metric;
+		metricSelect.addEventListener('change', () => {
+			this.metric = metricSelect.value as CalendarMetric;
+			this.render();
+		});
+	}
+
+	private renderStreaks(root: HTMLElement, dates: string[]): void {
+		const { current, longest } = getStreaks(dates);
+		const streaksEl = root.createDiv({ cls: 'workout-calendar-streaks' });
+
+		const currentEl = streaksEl.createDiv({ cls: 'workout-calendar-streak' });
+		currentEl.createDiv({ cls: 'workout-calendar-streak-value', text: String(current) });
+		currentEl.createDiv({ cls: 'workout-calendar-streak-label', text: 'Current streak (days)' });
+
+		const longestEl = streaksEl.createDiv({ cls: 'workout-calendar-streak' });
+		longestEl.createDiv({ cls: 'workout-calendar-streak-value', text: String(longest) });
+		longestEl.createDiv({ cls: 'workout-calendar-streak-label', text: 'Longest streak (days)' });
+
+		const totalEl = streaksEl.createDiv({ cls: 'workout-calendar-streak' });
+		totalEl.createDiv({ cls: 'workout-calendar-streak-value', text: String(dates.length) });
+		totalEl.createDiv({ cls: 'workout-calendar-streak-label', text: 'Training days' });
+	}
+
+	/**
+	 * GitHub-style grid: one column per week, one row per weekday
+	 */
+	private renderYear(root: HTMLElement, days: Map<string, CalendarDay>): void {
+		const start = this.cursor.clone().startOf('year').startOf('week');
+		const end = this.cursor.clone().endOf('year');
+		const year = this.cursor.year();
+		const maxValue = this.getMaxValue(days, start.format('YYYY-MM-DD'), end.format('YYYY-MM-DD'));
+
+		const grid = root.createDiv({ cls: 'workout-calendar-year' });
+
+		for (const week = start.clone(); week.isSameOrBefore(end); week.add(1, 'week')) {
+			const column = grid.createDiv({ cls: 'workout-calendar-week' });
+			for (let d = 0; d < 7; d++) {
+				const date = week.clone().add(d, 'day');
+				if (date.year() !== year) {
+					column.createDiv({ cls: 'workout-calendar-cell outside' });
+					continue;
+				}
+				this.renderCell(column, date.format('YYYY-MM-DD'), days, maxValue);
+			}
+		}
+	}
+
+	private renderMonth(root: HTMLElement, days: Map<string, CalendarDay>): void {
+		const monthStart = this.cursor.clone().startOf('month');
+		const monthEnd = this.cursor.clone().endOf('month');
+		const maxValue = this.getMaxValue(days, monthStart.format('YYYY-MM-DD'), monthEnd.format('YYYY-MM-DD'));
+
+		const grid = root.createDiv({ cls: 'workout-calendar-month' });
+
+		// Weekday header in locale order
+		const weekStart = monthStart.clone().startOf('week');
+		for (let d = 0; d < 7; d++) {
+			grid.createDiv({ cls: 'workout-calendar-weekday', text: weekStart.clone().add(d, 'day').format('dd') });
+		}
+
+		for (const date = weekStart.clone(); date.isSameOrBefore(monthEnd.clone().endOf('week')); date.add(1, 'day')) {
+			if (date.month() !== monthStart.month()) {
+				grid.createDiv({ cls: 'workout-calendar-cell outside' });
+				continue;
+			}
+			const cell = this.renderCell(grid, date.format('YYYY-MM-DD'), days, maxValue);
+			cell.setText(String(date.date()));
+		}
+	}
+
+	private renderCell(parent: HTMLElement, date: string, days: Map<string, CalendarDay>, maxValue: number): HTMLElement {
+		const day = days.get(date);
+		const level = day ? this.getHeatLevel(day.value, maxValue) : 0;
+
+		const cell = parent.createDiv({
+			cls: `workout-calendar-cell level-${level}${date === this.selectedDate ? ' selected' : ''}`,
+			attr: { 'aria-label': this.describeDay(date, day) }
+		});
+
+		if (day) {
+			cell.addClass('has-workout');
+			cell.addEventListener('click', () => {
+				// Single session: jump straight to it, otherwise list the day's sessions
+				const only = day.sessions.length === 1 ? day.sessions[0] : undefined;
+				if (only) {
+					this.openSession(only);
+				} else {
+					this.selectedDate = date;
+					this.render();
+				}
+			});
+		}
+
+		return cell;
+	}
+
+	private renderLegend(root: HTMLElement): void {
+		const legend = root.createDiv({ cls: 'workout-calendar-legend' });
+		legend.createSpan({ text: 'Less' });
+		for (let level = 0; level <= HEAT_LEVELS; level++) {
+			legend.createDiv({ cls: `workout-calendar-cell level-${level}` });
+		}
+		legend.createSpan({ text: 'More' });
+	}
+
+	private renderSelectedDay(root: HTMLElement, days: Map<string, CalendarDay>): void {
+		const day = this.selectedDate ? days.get(this.selectedDate) : undefined;
+		if (!day) return;
+
+		const listEl = root.createDiv({ cls: 'workout-calendar-sessions' });
+		listEl.createDiv({ cls: 'workout-calendar-sessions-title', text: moment(day.date).format('dddd, MMMM D, YYYY') });
+
+		for (const session of day.sessions) {
+			const item = listEl.createEl('a', {
+				cls: 'workout-calendar-session',
+				text: session.heading || session.workout.metadata.title || 'Workout'
+			});
+			item.addEventListener('click', () => this.openSession(session));
+		}
+	}
+
+	private describeDay(date: string, day: CalendarDay | undefined): string {
+		const label = moment(date).format('ddd, MMM D, YYYY');
+		if (!day) return label;
+
+		const value = this.metric === 'duration'
+			? `${Math.round(day.value)} min`
+			: `${Math.round(day.value)} ${this.getWeightUnit()} volume`;
+		const count = day.sessions.length === 1 ? '1 workout' : `${day.sessions.length} workouts`;
+		return `${label}: ${count}, ${value}`;
+	}
+
+	private getMaxValue(days: Map<string, CalendarDay>, from: string, to: string): number {
+		let max = 0;
+		for (const day of days.values()) {
+			if (day.date >= from && day.date <= to) {
+				max = Math.max(max, day.value);
+			}
+		}
+		return max;
+	}
+
+	private getHeatLevel(value: number, maxValue: number): number {
+		// A logged workout is always visible, even with no duration/volume recorded
+		if (maxValue <= 0 || value <= 0) return 1;
+		return Math.max(1, Math.ceil((value / maxValue) * HEAT_LEVELS));
+	}
+
+	/**
+	 * Open the log file at the heading written by WorkoutLogger
+	 */
+	private openSession(session: HistorySession): void {
+		const link = session.heading ? `${session.filePath}#${session.heading}` : session.filePath;
+		this.app.workspace.openLinkText(link, '', false);
+	}
+}
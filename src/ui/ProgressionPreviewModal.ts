@@ -0,0 +1,69 @@
+import { App, Modal } from 'obsidian';
+import { ProgressionPreview } from '../preview';
+
+/**
+ * Read-only diff of what a workout block will look like after it is finished and reset
+ */
+export class ProgressionPreviewModal extends Modal {
+	constructor(app: App, private preview: ProgressionPreview, private title: string) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('workout-preview');
+
+		contentEl.createEl('h2', { text: `Next time: ${this.title}` });
+		contentEl.createDiv({
+			cls: 'workout-preview-hint',
+			text: 'Nothing is written. Sets that are not done yet count as done as planned.'
+		});
+
+		const { sets, addedSets } = this.preview;
+
+		if (sets.length === 0 && addedSets.length === 0) {
+			contentEl.createDiv({ cls: 'workout-preview-empty', text: 'No changes - none of the progression formulas apply.' });
+			return;
+		}
+
+		if (addedSets.length > 0) {
+			const addedEl = contentEl.createDiv({ cls: 'workout-preview-added' });
+			for (const { name, count } of addedSets) {
+				addedEl.createDiv({ text: `+ ${count} ${count === 1 ? 'set' : 'sets'} of ${name}` });
+			}
+		}
+
+		const table = contentEl.createEl('table', { cls: 'workout-preview-table' });
+		const header = table.createEl('thead').createEl('tr');
+		for (const label of ['Set', 'Param', 'Now', 'Next', 'Why']) {
+			header.createEl('th', { text: label });
+		}
+
+		const body = table.createEl('tbody');
+		for (const set of sets) {
+			const setLabel = `${set.name} #${set.setNumber}`;
+
+			if (set.reason) {
+				const row = body.createEl('tr', { cls: 'workout-preview-reason' });
+				row.createEl('td', { text: setLabel });
+				row.createEl('td', { text: set.reason, attr: { colspan: '4' } });
+			}
+
+			set.params.forEach((param, i) => {
+				const unit = param.unit ? ` ${param.unit}` : '';
+				const row = body.createEl('tr', { cls: `status-${param.status}` });
+				// Label each set once
+				row.createEl('td', { text: set.reason || i > 0 ? '' : setLabel });
+				row.createEl('td', { text: param.key });
+				row.createEl('td', { text: `${param.before}${unit}` });
+				row.createEl('td', { cls: 'workout-preview-next', text: `${param.after}${unit}` });
+				row.createEl('td', { cls: 'workout-preview-why', text: param.reason });
+			});
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,374 @@
+import { ItemView, ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import WorkoutLogPlugin from '../main';
+import { TimerManager } from '../timer/manager';
+import { Exercise, ExerciseParam, ParsedWorkout, TimerState, WorkoutCallbacks, WorkoutLogSettings } from '../types';
+import { updateExerciseTimer, updateHeaderTimer } from '../renderer';
+import { findNextPending } from '../groups';
+import { getEffortOptions } from '../effort';
+import { getLoadIncrement } from '../percentage';
+import { isWarmupSet } from '../warmup';
+
+export const VIEW_TYPE_WORKOUT_SESSION = 'workout-log-session';
+
+// Seconds added or taken off a running rest per tap (same as the inline block)
+const REST_ADJUST_STEP = 15;
+
+// Stepped values are written once the steppers have been left alone this long (milliseconds)
+const FLUSH_DELAY = 1500;
+
+// Plain numbers can be stepped, durations like "60s" and percentages like "75%1RM" can't
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+
+/**
+ * Next value of a param one step up or down: the load increment for weights, one for other numbers,
+ * the next option for RPE/RIR
+ * @returns null if the param can't be stepped
+ */
+function stepParamValue(param: ExerciseParam, direction: 1 | -1, settings: WorkoutLogSettings): string | null {
+	if (param.effort) {
+		const options = getEffortOptions(param.effort);
+		const index = options.indexOf(param.value);
+		if (index === -1) return direction > 0 ? options[0] ?? null : null;
+		return options[index + direction] ?? (direction < 0 ? '' : param.value);
+	}
+
+	if (!NUMBER_PATTERN.test(param.value)) return null;
+
+	const step = param.key.toLowerCase() === 'weight'
+		? getLoadIncrement(settings, param.weightUnit ?? settings.weightUnit)
+		: 1;
+	const value = Math.max(0, parseFloat(param.value) + step * direction);
+	return String(Math.round(value * 100) / 100);
+}
+
+function formatParam(param: ExerciseParam): string {
+	if (param.effort) return `${param.key} ${param.value}`;
+	return param.unit ? `${param.value} ${param.unit}` : `× ${param.value}`;
+}
+
+/**
+ * One-line summary of a set for the next-up preview, e.g. "60 kg · × 8"
+ */
+function summarizeExercise(exercise: Exercise): string {
+	return exercise.params
+		.filter(param => param.key.toLowerCase() !== 'duration' && param.value !== '')
+		.map(formatParam)
+		.join(' · ');
+}
+
+/**
+ * Full-screen view of a started workout: one exercise at a time in large type, with steppers for its values,
+ * its timer, what comes next and big finish/add set/skip buttons. It drives the same callbacks as the
+ * inline block and re-reads the block whenever its note changes.
+ */
+export class WorkoutSessionView extends ItemView {
+	private workoutId: string | null = null;
+	private parsed: ParsedWorkout | null = null;
+	private callbacks: WorkoutCallbacks | null = null;
+	// What the current render shows, a change means a full re-render instead of a timer update
+	private renderedKey: string | null = null;
+	private timerEl: HTMLElement | null = null;
+	private totalEl: HTMLElement | null = null;
+	private isBusy = false;
+	private flushTimeout: number | null = null;
+	private unsubscribe: (() => void) | null = null;
+	private removeWriter: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, private plugin: WorkoutLogPlugin, private timerManager: TimerManager) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_WORKOUT_SESSION;
+	}
+
+	getDisplayText(): string {
+		return this.parsed?.metadata.title || 'Workout session';
+	}
+
+	getIcon(): string {
+		return 'dumbbell';
+	}
+
+	getState(): Record<string, unknown> {
+		return { workoutId: this.workoutId };
+	}
+
+	async setState(state: { workoutId?: string | null }, result: ViewStateResult): Promise<void> {
+		if (state.workoutId && state.workoutId !== this.workoutId) {
+			this.workoutId = state.workoutId;
+			await this.loadWorkout();
+		}
+		await super.setState(state, result);
+	}
+
+	async onOpen(): Promise<void> {
+		this.unsubscribe = this.timerManager.subscribeAll((workoutId, state) => this.handleTick(workoutId, state));
+		// Stepped values go to the file before anything else reads the block (e.g. a rest ending)
+		this.removeWriter = this.plugin.addPendingWriter(async workoutId => {
+			if (workoutId === this.workoutId) await this.flushChanges();
+		});
+
+		// Edits from the inline block, undo or sync
+		this.registerEvent(this.app.vault.on('modify', file => {
+			if (this.workoutId && file.path === this.plugin.getWorkoutPath(this.workoutId)) {
+				this.loadWorkout();
+			}
+		}));
+
+		// Opened without a workout: follow the one that's running
+		this.workoutId = this.workoutId ?? this.timerManager.getRunningWorkoutIds()[0] ?? null;
+		await this.loadWorkout();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.removeWriter?.();
+		this.removeWriter = null;
+		await this.flushChanges();
+	}
+
+	// Write stepped values now instead of waiting for the delay
+	private async flushChanges(): Promise<void> {
+		if (this.flushTimeout !== null) {
+			window.clearTimeout(this.flushTimeout);
+			this.flushTimeout = null;
+		}
+		await this.callbacks?.onFlushChanges();
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushTimeout !== null) window.clearTimeout(this.flushTimeout);
+		this.flushTimeout = window.setTimeout(() => {
+			this.flushTimeout = null;
+			this.callbacks?.onFlushChanges();
+		}, FLUSH_DELAY);
+	}
+
+	private async loadWorkout(): Promise<void> {
+		// The callbacks are replaced below, so their unwritten values go first
+		await this.flushChanges();
+		const workoutId = this.workoutId;
+		const controls = workoutId ? await this.plugin.getWorkoutControls(workoutId) : null;
+		// Switched to another workout while reading
+		if (workoutId !== this.workoutId) return;
+
+		this.parsed = controls?.parsed ?? null;
+		this.callbacks = controls?.callbacks ?? null;
+		this.render();
+	}
+
+	private handleTick(workoutId: string, state: TimerState | null): void {
+		if (!this.workoutId && state) {
+			// A workout was started while the view waited for one
+			this.workoutId = workoutId;
+			this.loadWorkout();
+			return;
+		}
+		if (workoutId !== this.workoutId) return;
+
+		if (!state) {
+			// Finished or reset, wait for the next workout
+			this.workoutId = null;
+			this.parsed = null;
+			this.callbacks = null;
+			this.render();
+			return;
+		}
+		if (this.getRenderKey(state) !== this.renderedKey) {
+			this.render();
+			return;
+		}
+
+		if (this.totalEl) updateHeaderTimer(this.totalEl, state);
+		if (this.timerEl) {
+			const exercise = this.parsed?.exercises[this.timerManager.getActiveExerciseIndex(workoutId)];
+			updateExerciseTimer(this.timerEl, state, exercise?.targetDuration, state.isResting);
+		}
+	}
+
+	private getRenderKey(state: TimerState): string {
+		const activeIndex = this.workoutId ? this.timerManager.getActiveExerciseIndex(this.workoutId) : -1;
+		return `${activeIndex}:${state.isResting}:${state.isWorkoutPaused}`;
+	}
+
+	private render(): void {
+		const root = this.contentEl;
+		root.empty();
+		root.addClass('workout-session');
+		this.timerEl = null;
+		this.totalEl = null;
+
+		const workoutId = this.workoutId;
+		const state = workoutId ? this.timerManager.getTimerState(workoutId) : null;
+		const parsed = this.parsed;
+		const callbacks = this.callbacks;
+		if (!workoutId || !state || !parsed || !callbacks || parsed.metadata.state !== 'started') {
+			this.renderedKey = null;
+			root.removeClass('is-paused');
+			root.createDiv({
+				cls: 'workout-session-empty',
+				text: 'No workout running. Start a workout block, then open it here with Session view.'
+			});
+			return;
+		}
+
+		this.renderedKey = this.getRenderKey(state);
+		root.toggleClass('is-paused', state.isWorkoutPaused);
+
+		const activeIndex = this.timerManager.getActiveExerciseIndex(workoutId);
+		this.renderHeader(root, workoutId, parsed, state, callbacks);
+
+		// While resting, the next set is shown so its values can be set before it starts
+		const shownIndex = state.isResting ? findNextPending(parsed.exercises, activeIndex) : activeIndex;
+		const exercise = parsed.exercises[shownIndex];
+
+		const currentEl = root.createDiv({ cls: 'workout-session-current' });
+		if (state.isResting) {
+			currentEl.createDiv({ cls: 'workout-session-label', text: 'Rest' });
+		}
+		this.timerEl = currentEl.createDiv({ cls: 'workout-session-timer' });
+		updateExerciseTimer(this.timerEl, state, state.isResting ? undefined : exercise?.targetDuration, state.isResting);
+
+		if (exercise) {
+			currentEl.createDiv({
+				cls: 'workout-session-set',
+				text: state.isResting ? `Up next · ${this.describeSet(parsed, shownIndex)}` : this.describeSet(parsed, shownIndex)
+			});
+			currentEl.createDiv({ cls: 'workout-session-name', text: exercise.name });
+			this.renderSteppers(currentEl, exercise, shownIndex, callbacks);
+		}
+
+		this.renderActions(root, activeIndex, state, callbacks);
+
+		// Set after the current one
+		if (!state.isResting) {
+			const next = parsed.exercises[findNextPending(parsed.exercises, activeIndex)];
+			const nextEl = root.createDiv({ cls: 'workout-session-next' });
+			if (next) {
+				nextEl.createSpan({ cls: 'workout-session-next-label', text: 'Next: ' });
+				nextEl.createSpan({ text: next.name });
+				const summary = summarizeExercise(next);
+				if (summary) nextEl.createSpan({ cls: 'workout-session-next-params', text: ` · ${summary}` });
+			} else {
+				nextEl.setText('Last exercise');
+			}
+		}
+	}
+
+	private renderHeader(
+		root: HTMLElement,
+		workoutId: string,
+		parsed: ParsedWorkout,
+		state: TimerState,
+		callbacks: WorkoutCallbacks
+	): void {
+		const headerEl = root.createDiv({ cls: 'workout-session-header' });
+
+		const titleEl = headerEl.createDiv({ cls: 'workout-session-title', text: parsed.metadata.title || 'Workout' });
+		titleEl.setAttribute('aria-label', 'Open workout note');
+		titleEl.addEventListener('click', () => {
+			this.plugin.openWorkoutNote(workoutId);
+		});
+
+		this.totalEl = headerEl.createDiv({ cls: 'workout-session-total' });
+		updateHeaderTimer(this.totalEl, state);
+
+		const pauseBtn = headerEl.createEl('button', {
+			cls: 'workout-btn',
+			text: state.isWorkoutPaused ? 'Resume workout' : 'Pause workout'
+		});
+		pauseBtn.addEventListener('click', () => {
+			if (state.isWorkoutPaused) {
+				callbacks.onResumeWorkout();
+			} else {
+				callbacks.onPauseWorkout();
+			}
+		});
+	}
+
+	// e.g. "Set 2 of 4" among the working sets of the exercise, or "Warm-up"
+	private describeSet(parsed: ParsedWorkout, index: number): string {
+		const exercise = parsed.exercises[index];
+		if (!exercise || isWarmupSet(exercise)) return 'Warm-up';
+
+		const sets = parsed.exercises
+			.map((set, setIndex) => ({ set, setIndex }))
+			.filter(({ set }) => set.name === exercise.name && !isWarmupSet(set));
+		const position = sets.findIndex(({ setIndex }) => setIndex === index) + 1;
+		return `Set ${position} of ${sets.length}`;
+	}
+
+	private renderSteppers(container: HTMLElement, exercise: Exercise, index: number, callbacks: WorkoutCallbacks): void {
+		const paramsEl = container.createDiv({ cls: 'workout-session-params' });
+
+		for (const param of exercise.params) {
+			// Durations run on the timer
+			if (param.key.toLowerCase() === 'duration') continue;
+
+			const paramEl = paramsEl.createDiv({ cls: 'workout-session-param' });
+			paramEl.createDiv({ cls: 'workout-session-param-label', text: param.key });
+			const stepperEl = paramEl.createDiv({ cls: 'workout-session-stepper' });
+
+			const canStep = param.editable && stepParamValue(param, 1, this.plugin.settings) !== null;
+			const minusBtn = canStep ? stepperEl.createEl('button', { cls: 'workout-btn workout-session-step', text: '−' }) : null;
+			const valueEl = stepperEl.createSpan({ cls: 'workout-session-param-value' });
+			const plusBtn = canStep ? stepperEl.createEl('button', { cls: 'workout-btn workout-session-step', text: '+' }) : null;
+
+			let current = param.value;
+			const showValue = (): void => {
+				valueEl.setText(current === '' ? '–' : current);
+				if (param.unit && !param.effort) valueEl.createSpan({ cls: 'workout-session-param-unit', text: ` ${param.unit}` });
+			};
+			showValue();
+
+			// Written to the file after a pause in tapping, or before the next action
+			const step = (direction: 1 | -1): void => {
+				const value = stepParamValue({ ...param, value: current }, direction, this.plugin.settings);
+				if (value === null || value === current) return;
+				current = value;
+				showValue();
+				callbacks.onParamChange(index, param.key, value);
+				this.scheduleFlush();
+			};
+			minusBtn?.addEventListener('click', () => step(-1));
+			plusBtn?.addEventListener('click', () => step(1));
+		}
+	}
+
+	private renderActions(root: HTMLElement, activeIndex: number, state: TimerState, callbacks: WorkoutCallbacks): void {
+		const actionsEl = root.createDiv({ cls: 'workout-session-actions' });
+
+		if (state.isResting) {
+			this.createAction(actionsEl, `-${REST_ADJUST_STEP}s`, '', () => callbacks.onAdjustRest(-REST_ADJUST_STEP));
+			this.createAction(actionsEl, `+${REST_ADJUST_STEP}s`, '', () => callbacks.onAdjustRest(REST_ADJUST_STEP));
+			this.createAction(actionsEl, 'Extend', '', () => callbacks.onExtendRest());
+			this.createAction(actionsEl, 'Skip Rest', 'workout-btn-primary', () => callbacks.onRestSkip(activeIndex));
+			return;
+		}
+
+		this.createAction(actionsEl, 'Skip', '', () => callbacks.onExerciseSkip(activeIndex));
+		this.createAction(actionsEl, '+ Set', '', () => callbacks.onExerciseAddSet(activeIndex));
+		this.createAction(actionsEl, 'Finish', 'workout-btn-primary', () => callbacks.onExerciseFinish(activeIndex));
+	}
+
+	private createAction(container: HTMLElement, text: string, cls: string, action: () => Promise<void> | void): void {
+		const button = container.createEl('button', { cls: `workout-btn workout-session-action ${cls}`.trim(), text });
+		button.addEventListener('click', async () => {
+			// Prevents double taps from acting twice before the view is redrawn
+			if (this.isBusy) return;
+			this.isBusy = true;
+			button.addClass('workout-btn-processing');
+			try {
+				await this.flushChanges();
+				await action();
+			} catch (error) {
+				console.error('[Workout Log] Error in session view:', error);
+			} finally {
+				this.isBusy = false;
+				button.removeClass('workout-btn-processing');
+			}
+		});
+	}
+}
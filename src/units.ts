@@ -0,0 +1,97 @@
+import { ExerciseParam, ParsedWorkout, WeightUnit } from './types';
+import { parseWorkout } from './parser';
+import { serializeWorkout } from './serializer';
+import { parsePercentageLoad } from './percentage';
+
+const KG_PER_LB = 0.45359237;
+
+// Rounding step after conversion, per target unit
+export const ROUNDING_STEP: Record<WeightUnit, number> = {
+	kg: 0.5,
+	lb: 1
+};
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+	if (from === to) return value;
+	return from === 'kg' ? value / KG_PER_LB : value * KG_PER_LB;
+}
+
+export function roundWeight(value: number, unit: WeightUnit): number {
+	const step = ROUNDING_STEP[unit];
+	return Math.round(value / step) * step;
+}
+
+/**
+ * Numeric value of a weight param in the given unit (unitless weights are assumed to already be in it)
+ * @returns NaN if the value is not a number
+ */
+export function getWeightIn(param: ExerciseParam, target: WeightUnit): number {
+	const value = parseFloat(param.value);
+	if (isNaN(value) || !param.weightUnit) return value;
+	return convertWeight(value, param.weightUnit, target);
+}
+
+function convertValue(value: string | undefined, from: WeightUnit, to: WeightUnit): string | undefined {
+	// Percentage weights follow their max, nothing to convert
+	if (value === undefined || value === '' || parsePercentageLoad(value)) return value;
+	const num = parseFloat(value);
+	if (isNaN(num)) return value;
+	return String(roundWeight(convertWeight(num, from, to), to));
+}
+
+/**
+ * Convert every weight param with a kg/lb unit to the target unit, including progression bounds.
+ * Progression formulas are left untouched since their constants can't be converted reliably.
+ * @returns The converted workout and how many params changed
+ */
+export function convertWorkoutUnits(workout: ParsedWorkout, target: WeightUnit): { workout: ParsedWorkout; changed: number } {
+	const converted = structuredClone(workout);
+	let changed = 0;
+
+	for (const exercise of converted.exercises) {
+		for (const param of exercise.params) {
+			const from = param.weightUnit;
+			if (!from || from === target) continue;
+
+			param.value = convertValue(param.value, from, target) ?? param.value;
+			param.initialValue = convertValue(param.initialValue, from, target);
+			param.maxValue = convertValue(param.maxValue, from, target);
+			param.targetValue = convertValue(param.targetValue, from, target);
+			param.unit = target;
+			param.weightUnit = target;
+			changed++;
+		}
+	}
+
+	return { workout: converted, changed };
+}
+
+/**
+ * Convert all workout blocks in a markdown document. Blocks without anything to convert are left as written.
+ */
+export function convertWorkoutBlocksInText(content: string, target: WeightUnit): { content: string; changed: number } {
+	const lines = content.split('\n');
+	let changed = 0;
+
+	for (let i = 0; i < lines.length; i++) {
+		if (lines[i]?.trim() !== '```workout') continue;
+
+		const start = i + 1;
+		let end = start;
+		while (end < lines.length && lines[end]?.trim() !== '```') {
+			end++;
+		}
+
+		const result = convertWorkoutUnits(parseWorkout(lines.slice(start, end).join('\n')), target);
+		if (result.changed > 0) {
+			const newBody = serializeWorkout(result.workout).split('\n');
+			lines.splice(start, end - start, ...newBody);
+			end = start + newBody.length;
+			changed += result.changed;
+		}
+
+		i = end;
+	}
+
+	return { content: lines.join('\n'), changed };
+}
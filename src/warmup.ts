@@ -0,0 +1,179 @@
+import { Exercise, ExerciseParam, ParsedWorkout, WorkoutLogSettings } from './types';
+import { WorkoutHistory } from './history';
+import { getPlateConfig } from './plates';
+import { resolvePercentageLoad, roundToLoadIncrement } from './percentage';
+import { getExerciseGroups } from './groups';
+
+// Warmup value on generated rows, and the one that picks the first scheme in settings
+export const WARMUP_SET = 'set';
+export const WARMUP_AUTO = 'auto';
+
+// Rest after a warm-up row in seconds, shorter working rests are kept
+const WARMUP_REST = 60;
+
+// One step of a ramp: the empty bar or a percentage of the working weight, for some reps
+export interface WarmupStep {
+	percent: number | 'bar';
+	reps: number;
+}
+
+const STEP_PATTERN = /^(bar|\d+(?:\.\d+)?\s*%)\s*[x×*]\s*(\d+)$/i;
+
+/**
+ * Generated warm-up rows don't count towards volume, records, misses or progression
+ */
+export function isWarmupSet(exercise: Exercise): boolean {
+	return exercise.warmup === WARMUP_SET;
+}
+
+/**
+ * Parse the scheme setting: one "name: bar x 10, 40% x 5, 60% x 3" per line, in order
+ */
+export function parseWarmupSchemes(text: string): Map<string, WarmupStep[]> {
+	const schemes = new Map<string, WarmupStep[]>();
+
+	for (const line of text.split('\n')) {
+		const colonIndex = line.indexOf(':');
+		if (colonIndex === -1) continue;
+
+		const name = line.slice(0, colonIndex).trim().toLowerCase();
+		const steps: WarmupStep[] = [];
+		for (const entry of line.slice(colonIndex + 1).split(',')) {
+			const match = entry.trim().match(STEP_PATTERN);
+			if (!match) continue;
+			const load = (match[1] ?? '').toLowerCase();
+			steps.push({
+				percent: load === 'bar' ? 'bar' : parseFloat(load),
+				reps: parseInt(match[2] ?? '', 10)
+			});
+		}
+
+		if (name && steps.length > 0 && !schemes.has(name)) {
+			schemes.set(name, steps);
+		}
+	}
+
+	return schemes;
+}
+
+function getScheme(settings: WorkoutLogSettings, name: string): WarmupStep[] | undefined {
+	const schemes = parseWarmupSchemes(settings.warmupSchemes);
+	if (name === WARMUP_AUTO) {
+		return schemes.values().next().value;
+	}
+	return schemes.get(name);
+}
+
+/**
+ * Warm-up rows for one working set: the scheme's steps below the working weight,
+ * rounded to the plate increment, never lighter than the bar and without repeated weights.
+ * They rest for at most a minute, whatever the working set's rest.
+ */
+export function buildWarmupSets(
+	workingSet: Exercise,
+	weightParam: ExerciseParam,
+	workingWeight: number,
+	steps: WarmupStep[],
+	settings: WorkoutLogSettings
+): Exercise[] {
+	const unit = weightParam.weightUnit ?? settings.weightUnit;
+	const barWeight = getPlateConfig(settings, unit).barWeight;
+	const restAfter = Math.min(workingSet.restAfter ?? WARMUP_REST, WARMUP_REST);
+	const sets: Exercise[] = [];
+	let previous: number | null = null;
+
+	for (const step of steps) {
+		const weight = step.percent === 'bar'
+			? barWeight
+			: Math.max(barWeight, roundToLoadIncrement(workingWeight * step.percent / 100, settings, unit));
+		if (weight >= workingWeight || weight === previous) continue;
+		previous = weight;
+
+		sets.push({
+			state: 'pending',
+			name: workingSet.name,
+			params: [
+				{ key: weightParam.key, value: String(weight), editable: true, unit: weightParam.unit, weightUnit: weightParam.weightUnit },
+				{ key: 'Reps', value: String(step.reps), editable: true }
+			],
+			restAfter,
+			warmup: WARMUP_SET,
+			lineIndex: 0
+		});
+	}
+
+	return sets;
+}
+
+/**
+ * Insert warm-up rows before the first working set of every exercise marked "Warmup: auto"
+ * (or with a scheme name), ramping up to that set's weight. Exercises in a superset or circuit
+ * get theirs before the whole group, so the group isn't split. Exercises that already have
+ * warm-up rows, or no numeric weight, are left alone.
+ */
+export function addWarmupSets(
+	workout: ParsedWorkout,
+	settings: WorkoutLogSettings,
+	history: WorkoutHistory | null
+): ParsedWorkout {
+	const result = structuredClone(workout);
+	const groups = getExerciseGroups(result.exercises);
+	const handled = new Set<string>();
+	const exercises: Exercise[] = [];
+
+	result.exercises.forEach((exercise, index) => {
+		// A group's warm-ups all go in front of its first line, its other lines get none
+		const group = groups.find(g => index >= g.startIndex && index <= g.endIndex);
+		const members = !group ? [exercise]
+			: index === group.startIndex ? result.exercises.slice(group.startIndex, group.endIndex + 1)
+			: [];
+
+		for (const member of members) {
+			const isFirstWorkingSet = !isWarmupSet(member) && !handled.has(member.name);
+			if (isFirstWorkingSet) {
+				handled.add(member.name);
+				exercises.push(...getWarmupsFor(member, result.exercises, settings, history));
+			}
+		}
+		exercises.push(exercise);
+	});
+
+	result.exercises = exercises.map((exercise, index) => ({ ...exercise, lineIndex: index }));
+	return result;
+}
+
+function getWarmupsFor(
+	workingSet: Exercise,
+	allSets: Exercise[],
+	settings: WorkoutLogSettings,
+	history: WorkoutHistory | null
+): Exercise[] {
+	const sets = allSets.filter(set => set.name === workingSet.name);
+	const schemeName = sets.find(set => set.warmup && !isWarmupSet(set))?.warmup;
+	if (!schemeName || sets.some(isWarmupSet)) return [];
+
+	const steps = getScheme(settings, schemeName);
+	if (!steps) {
+		console.warn(`[Workout Log] Unknown warm-up scheme "${schemeName}" for ${workingSet.name}`);
+		return [];
+	}
+
+	const weightParam = workingSet.params.find(p => p.key.toLowerCase() === 'weight');
+	if (!weightParam) return [];
+
+	const weight = resolvePercentageLoad(workingSet.name, weightParam, settings, history) ?? parseFloat(weightParam.value);
+	if (isNaN(weight)) return [];
+
+	return buildWarmupSets(workingSet, weightParam, weight, steps, settings);
+}
+
+/**
+ * Copy of the workout without generated warm-up rows (line indices renumbered)
+ */
+export function removeWarmupSets(workout: ParsedWorkout): ParsedWorkout {
+	const result = structuredClone(workout);
+	result.exercises = result.exercises
+		.filter(exercise => !isWarmupSet(exercise))
+		.map((exercise, index) => ({ ...exercise, lineIndex: index }));
+	return result;
+}